@@ -1,126 +1,144 @@
-#!/usr/bin/env node
-
-import * as fs from "fs";
-
-//Table class to hold all of the info from the csv
-class table {
-    //Number of columns
-    cols: number;
-    //Number of rows
-    rows: number;
-    //Holder c
-    enough: number;
-    //Filed for c
-    c: number;
-    //Headers of the table
-    attributes: Array<String>;
-    //Array to store the data from the CSV file
-    data: string[][];
-
-    //Constructor
-    constructor() {
-        this.cols = 0;
-        this.rows = 0;
-        this.enough = 0.5;
-    }
-
-    //Functin to set the data
-    dataSet(newData: string[][]){
-        this.data = newData;
-        this.cols = this.data[0].length - 1;
-        this.c = this.cols - 1;
-        this.rows = this.data.length - 1;
-        this.enough = this.rows**this.enough;
-    }
-
-    //Function to print the fields for testing
-    print() {
-        console.log("Cols: " + this.cols);
-        console.log("Rows: " + this.rows);
-        console.log("C: " + this.c);
-        console.log("Enough: " + this.enough);
-        console.log("Attributes: " + this.attributes);
-    }
-}
-
-/*
- * Function which reads in the table from standard in and saves it to the 
- * passed in table object.
- * This function was provided by Daniel Mills
- */
-function readInput(dataTable: table) {
-    var data:Array<String> = fs.readFileSync( '/dev/stdin', 'utf8' ).split( "\n" );
-    dataTable.attributes = data[ 0 ].split( "," );
-    dataTable.dataSet(data.slice( 1, data.length - 1).map( 
-        line => line.split(",").map(String)
-    ));
-}
-
-/*
- * This function recursively cuts the table into best and the rest. It uses the argmin
- * values provided from the previous filter to know where to cut.
- * It takes a table, holding the csv data, as a parameter, as well as the low
- * number to cut at, the high number to cut at and the string to use when
- * printing.
- */
-function cuts(input: table, low: number, high: number, pre: string) {
-    //Concatinate the preface with the last value
-    let tbPrint:string = pre.concat(input.data[low][input.c]);
-    process.stderr.write(tbPrint + "\n");
-    if(high - low > input.enough) {
-        //Grab cut from the last column of the high row
-        let cut:number = Number(input.data[low][input.cols]);
-        if(cut && cut <= input.rows) {
-            return cuts(input, cut + 1, high, pre.concat("|.."));
-        }
-    }
-    mark(input, 0, low - 2);
-    mark(input, low - 1, high);
-}
-
-/*
- * This function sets the band value as the last col of each row.
- * It takes a table, holding the csv data, as a parameter, as well as the low
- * number to cut at and the high number to cut at.
- */
-function mark(input: table, low: number, high: number) {
-    let b = band(input, low, high);
-    let i:number;
-    for(i = low; i <= high; i++ ) {
-        input.data[i][input.cols] = b
-    }
-}
-
-/*
- *This function formats the output of the respective bands
- * It takes a table, holding the csv data, as a parameter, as well as the low
- * number to cut at and the high number to cut at.
- */
-function band(input: table, low: number, high: number) {
-    if(low == 0) {
-        return ("..").concat(String(input.data[high][input.c]));
-    } else {
-        return String(input.data[low][input.c]).concat("..", String(input.data[high][input.c]));
-    }
-}
-
-//Create an instance of table
-var csv = new table();
-//Parse the CSV file from standard in and move the data over to the data object
-readInput(csv);
-//Write to standard error
-process.stderr.write("\n-- ".concat(String(csv.attributes[csv.c]), "----------\n"));
-//Divide the data into best and the rest
-cuts(csv, 0, csv.rows, "|.. ");
-//For loop to print the headers of the table to standard out
-for( var j = 0; j < csv.c; j++) {
-    process.stdout.write(csv.attributes[j] + ",");
-}
-process.stdout.write(csv.attributes[j] + ", !klass" + "\n");
-//For loop to print the table to standard out
-for( var i = 0; i < csv.rows; i++) {
-    for( var j = 0; j < csv.cols; j++) {
-        process.stdout.write(csv.data[i][j] + ",");
-    }
-    process.stdout.write(csv.data[i][j] + "\n");
-}
+#!/usr/bin/env node
+
+import { LabelOptions, Labels, labelBestRest } from "./bands";
+import { configure } from "./config";
+import { FORMATS, writeReport } from "./cuttree";
+import { Writer, useFormats } from "./formats";
+import { restoreOrder, useIds } from "./ids";
+import { labelGoals } from "./pipeline";
+import { Cell, Rows, Table, readTable, reportMissing } from "./table";
+import { useValidation } from "./validate";
+
+/*
+ * This filter labels the rows cut by argmin with their bands: it reads them
+ * from standard in, prints the cut tree to standard error, and prints the
+ * rows to standard out with a "!klass" column in place of the cut column.
+ * Every row is printed, including the last (the best scoring), which the
+ * filter used to drop. With "--restore-order", the rows are printed in
+ * order of their IDs instead (see ids.ts), such as the order they were
+ * read in by the first filter. The labelling is done by
+ * labelBestRest() in bands.ts, which other programs can import (see
+ * pipeline.ts).
+ *
+ * The rows are labelled on the goal argmin cut them on. "--goal name" names
+ * that goal (as given to argmin), and is checked against the cut column.
+ * "--goals a,b,c" instead cuts and labels the rows again on each of those
+ * "<" or ">" columns, as argmin's "--goal" would, in the same way argmin
+ * cut them (its objective, and "--both"), and prints every row with a
+ * "!klass_<goal>" column per goal (named without the "<" or ">") in place
+ * of the cut column (see labelGoals() in pipeline.ts).
+ */
+
+//File to write the cut tree report to (none by default), and its format:
+//json, md or dot (by default, from the file's extension)
+var report: string;
+var format: string;
+//Print the rows in order of their IDs, rather than sorted (see ids.ts)
+var restore: boolean = false;
+//The goal the rows were cut on ("--goal"), or the goals to label them on
+//("--goals")
+var goal: string;
+var goals: string[];
+//Apply the settings, format, validation and ID flags (see config.ts,
+//formats.ts, validate.ts and ids.ts), then read the report args
+var args: string[] = useIds(useValidation(useFormats(configure(process.argv.slice(2)))));
+for(let i = 0; i < args.length; i++) {
+    let arg = args[i];
+    let m = /^--report(-format)?=(.+)$/.exec(arg);
+    let g = /^--goal(s)?(=(.+))?$/.exec(arg);
+    if(g && !g[2] && i + 1 < args.length) {
+        g[3] = args[++i];
+    }
+    if(arg === "--restore-order") {
+        restore = true;
+    } else if(g && g[3] && g[1]) {
+        goals = g[3].split(",").map(name => name.trim());
+    } else if(g && g[3]) {
+        goal = g[3];
+    } else if(m && m[1]) {
+        format = m[2];
+    } else if(m) {
+        report = m[2];
+    } else {
+        process.stderr.write("Invalid command line args: " + args.join(" ") + "\n");
+        process.stderr.write("--report=file: write the cut tree to a file\n");
+        process.stderr.write("--report-format=json|md|dot: its format (default: from the file's extension)\n");
+        process.stderr.write("--restore-order: print the rows in the order of their IDs\n");
+        process.stderr.write("--goal name: the <, > or ! column the rows were cut on\n");
+        process.stderr.write("--goals a,b,c: label the rows on each of these goals instead\n");
+        process.stderr.write("--in csv|tsv|jsonl, --out csv|tsv|jsonl|arff: input and output formats\n");
+        process.stderr.write("--on-error=fail|skip|warn: what to do with bad input (see validate.ts)\n");
+        process.stderr.write("--id[=column]: add row IDs, or take them from a column (see ids.ts)\n");
+        process.exit(-1);
+    }
+}
+if(report && !format) {
+    format = report.slice(report.lastIndexOf(".") + 1);
+    format = format === "gv" ? "dot" : format === "markdown" ? "md" : format;
+}
+if(goals && (goal || report)) {
+    process.stderr.write("--goals labels on several goals: it cannot be used with --goal or --report\n");
+    process.exit(-1);
+}
+if(report && FORMATS.indexOf(format) < 0) {
+    process.stderr.write("Unknown report format: " + format + " (use --report-format=json|md|dot)\n");
+    process.exit(-1);
+}
+//Parse the table from standard in, then label it
+readTable(function (t: Table) {
+    reportMissing(t);
+    //Write the cut tree to standard error as it is found
+    let options: LabelOptions = {
+        goal: goal,
+        log: function (line: string) {
+            process.stderr.write(line + "\n");
+        }
+    };
+    let labels: Rows;
+    try {
+        labels = goals ? labelAgain(t, goals, options) : labelBestRest(t, options);
+    } catch(e) {
+        process.stderr.write(e.message + "\n");
+        process.exit(-1);
+    }
+    //Write the cut tree report, if asked for
+    if(report) {
+        writeReport(report, format, (<Labels>labels).tree);
+    }
+    let rows: Cell[][] = labels.rows;
+    if(restore) {
+        try {
+            rows = restoreOrder(labels.header, rows);
+        } catch(e) {
+            process.stderr.write(e.message + "\n");
+            process.exit(-1);
+        }
+    }
+    //Print the headers of the table to standard out, with the band column
+    //in place of the cut
+    let out = new Writer(labels.header, "Pipe3");
+    //For loop to print the table to standard out
+    for( var i = 0; i < rows.length; i++) {
+        out.row(rows[i]);
+    }
+    out.end();
+});
+
+/*
+ * This function labels the rows on each of the goals, cutting them as argmin
+ * cut them: with the objective named in the cut column, and on both sides of
+ * each split if it is a "?tree" column. The cut column is dropped.
+ */
+function labelAgain(t: Table, goals: string[], options: LabelOptions): Rows {
+    let last: number = t.header.length - 1;
+    let m = /^\?(cut|tree)(:([^:]*))?/.exec(t.header[last].trim());
+    let data: Rows = t;
+    if(m) {
+        data = {header: t.header.slice(0, last), rows: t.rows.map(row => row.slice(0, last))};
+    }
+    return labelGoals(data, goals, {
+        objective: m && m[3] ? m[3] : undefined,
+        both: !!m && m[1] === "tree",
+        log: options.log
+    });
+}
@@ -0,0 +1,308 @@
+import { Lean } from "./config";
+import { CutNode, cutNode, summarize } from "./cuttree";
+import { Cell, Col, Rows, Table, goalOf, tableOf } from "./table";
+
+/**
+ * @file bands.ts
+ *
+ * The last stage of the pipe, as a library (see Pipe3.ts, which runs it as a
+ * filter, and pipeline.ts). It labels each row with its band: the range of
+ * the goal values of the rows between the cuts argmin made (see cuts.ts),
+ * from their min to their max, such as "0.97..1" for the best. The rest
+ * (and, with "--both", the bands at either end) are open on the side away
+ * from the other bands, such as "..0.97": below them for a goal sorted
+ * ascending, and above them ("2.34..") for one sorted descending, as a
+ * "<" goal is. Rows cut on their "!" class are labelled with the class most
+ * of their band have instead (see common()). The band goes in a new
+ * "!klass" column, in place of the cut column.
+ *
+ * The goal is the one argmin cut on: the goal named in the cut column (as
+ * in "?cut:sd:ep"; see cuts.ts), or else the goal of the pipe (see
+ * table.ts). A goal can also be given, which must be the one cut on.
+ */
+
+export interface LabelOptions {
+    //Called with each line of the cut tree, as it is found (as Pipe3 prints
+    //it to standard error)
+    log?: (line: string) => void;
+    //The name of the goal the rows were cut on (see goalOf() in table.ts)
+    goal?: string;
+}
+
+//The labelled rows, plus the cut tree (see cuttree.ts)
+export interface Labels extends Rows {
+    tree: CutNode;
+}
+
+//Holds the info from the csv, plus what the cuts need to know about it
+class bands {
+    //Number of columns
+    cols: number;
+    //Number of rows
+    rows: number;
+    //Holder c
+    enough: number;
+    //Filed for c
+    c: number;
+    //First and last rows whose c is known (not "?")
+    lo: number;
+    hi: number;
+    //True if c goes down from lo to hi (as a "<" goal is sorted)
+    descending: boolean;
+    //True if c is numeric (false for the "!" class)
+    numeric: boolean;
+    //True if argmin partitioned both sides of each cut ("--both"), so that
+    //the cut column holds each row's path in the partition tree
+    tree: boolean;
+    //Headers of the table
+    attributes: Array<string>;
+    //Rows of the table, read from the CSV file
+    data: Cell[][];
+    //Where the cut tree is written as it is found, a line at a time
+    log: (line: string) => void;
+
+    //Constructor
+    constructor() {
+        this.cols = 0;
+        this.rows = 0;
+        this.enough = Lean.label.enough;
+        this.tree = false;
+        this.log = function (line: string) {};
+    }
+
+    //Functin to set the data. The column to band on is the goal named by
+    //the cut column, or else found by its header symbol; the cut written by
+    //argmin is the "?cut:objective" (or "?tree:objective", and either may
+    //end in ":goal") column. Every row has a cell for each header cell, as
+    //readTable checks (see validate.ts). A goal can also be given, which
+    //must be the one cut on: throws an Error if there is no such goal, or
+    //it is not that one
+    dataSet(t: Table, goal?: string){
+        this.attributes = t.header;
+        //Copied, as the band labels are written into the rows
+        this.data = t.rows.map(row => row.slice());
+        this.cols = t.header.length;
+        let m = /^\?(cut|tree)(:[^:]*(:(.+))?)?$/.exec(t.header[this.cols - 1].trim());
+        if(m) {
+            this.tree = m[1] === "tree";
+            this.cols--;
+        }
+        let c: Col = goalOf(t, m && m[4] !== undefined ? m[4] : undefined);
+        if(goal !== undefined && goalOf(t, goal) !== c) {
+            throw new Error("The rows were cut on " + c.name + ", not " + goal);
+        }
+        this.c = c.pos;
+        this.numeric = !!c.num;
+        this.rows = this.data.length - 1;
+        //Rows with an unknown c were put first or last by the sort, and
+        //are labelled "?" rather than given a band
+        this.lo = 0;
+        while(this.lo <= this.rows && this.data[this.lo][this.c] === "?") {
+            this.lo++;
+        }
+        this.hi = this.rows;
+        while(this.hi >= this.lo && this.data[this.hi][this.c] === "?") {
+            this.hi--;
+        }
+        for(let row of this.data) {
+            if(row[this.c] === "?") {
+                row[this.cols] = "?";
+            }
+        }
+        this.descending = this.lo <= this.hi && before(this.data[this.hi][this.c], this.data[this.lo][this.c]);
+        this.enough = (this.hi - this.lo)**this.enough;
+    }
+
+    //Function to print the fields for testing
+    print() {
+        console.log("Cols: " + this.cols);
+        console.log("Rows: " + this.rows);
+        console.log("C: " + this.c);
+        console.log("Known: " + this.lo + ".." + this.hi);
+        console.log("Enough: " + this.enough);
+        console.log("Attributes: " + this.attributes);
+    }
+}
+
+/*
+ * This function recursively cuts the table into best and the rest. It uses the argmin
+ * values provided from the previous filter to know where to cut: the cut column of
+ * each row holds the first row of the next partition (one past the last row, for the
+ * best rows).
+ * It takes a bands object, holding the csv data, as a parameter, as well as the first
+ * row of the partition to cut and the string to use when printing. It returns the
+ * node of the cut tree for the rows from there on, whose kids are the partition
+ * itself and the node cut next (see cuttree.ts).
+ */
+function cuts(input: bands, low: number, pre: string, id: string = "."): CutNode {
+    //Concatinate the preface with the last value. After the first line, this is
+    //the value of the row after the cut, as the filter has always printed it
+    let shown: number = low == input.lo ? low : Math.min(low + 1, input.hi);
+    let tbPrint:string = pre.concat(String(input.data[shown][input.c]));
+    input.log(tbPrint);
+    let node: CutNode = cutNode(id, low, input.hi);
+    if(input.hi - shown > input.enough) {
+        let cut:number = Number(input.data[low][input.cols]);
+        if(cut > low && cut <= input.hi) {
+            node.cut = input.data[cut - 1][input.c];
+            node.kids.push(cutNode(id.concat("0"), low, cut - 1));
+            node.kids.push(cuts(input, cut, pre.concat("|.."), id.concat("1")));
+            return node;
+        }
+    }
+    //The rows before the last partition are the rest, and it is the best (if
+    //argmin found no split, every row is in the one band)
+    if(low > input.lo) {
+        mark(input, input.lo, low - 1, !input.descending, input.descending);
+    }
+    mark(input, low, input.hi, false, false);
+    return node;
+}
+
+/*
+ * This function sets the band value as the last col of each row.
+ * It takes a bands object, holding the csv data, as a parameter, as well as the low
+ * number to cut at, the high number to cut at and which ends of the band are open
+ * (see band()).
+ */
+function mark(input: bands, low: number, high: number, openMin: boolean, openMax: boolean) {
+    let b = band(input, low, high, openMin, openMax);
+    let i:number;
+    for(i = low; i <= high; i++ ) {
+        input.data[i][input.cols] = b
+    }
+}
+
+/*
+ * This function labels the rows when argmin partitioned both sides of each cut.
+ * The rows of each leaf of the tree share a path, so every run of rows with the
+ * same path becomes one band, from the least to the greatest value of c in it,
+ * except that the bands at either end are open: ..0.21, 0.22..0.52, 0.53..
+ * It takes a bands object, holding the csv data, as a parameter.
+ */
+function leaves(input: bands) {
+    //Find where each leaf starts
+    let starts: number[] = [];
+    let i: number;
+    for(i = input.lo; i <= input.hi; i++) {
+        if(i == input.lo || input.data[i][input.cols] !== input.data[i - 1][input.cols]) {
+            starts.push(i);
+        }
+    }
+    starts.push(input.hi + 1);
+    let last: number = starts.length - 2;
+    for(let k = 0; k <= last; k++) {
+        //The first leaf holds the least values of c, unless c goes down
+        let first: boolean = k == 0 && last > 0;
+        let final: boolean = k == last && last > 0;
+        mark(input, starts[k], starts[k + 1] - 1, input.descending ? final : first,
+            input.descending ? first : final);
+    }
+}
+
+/*
+ * This function logs the partition tree, one line per
+ * node, indented by its depth, as cuts() does for best and the rest.
+ * It takes a bands object, holding the csv data, as a parameter, as well as the
+ * first and last row of the node, the depth of the node and the string to use
+ * when printing. It returns the node of the cut tree for those rows.
+ */
+function branches(input: bands, low: number, high: number, depth: number, pre: string): CutNode {
+    input.log(pre.concat(String(input.data[low][input.c]), "..",
+        String(input.data[high][input.c])));
+    let path: string = String(input.data[low][input.cols]);
+    let node: CutNode = cutNode(path.slice(0, depth + 1), low, high);
+    //The rows of a leaf have a path no longer than its depth
+    if(path.length <= depth + 1) {
+        return node;
+    }
+    let mid: number = low;
+    while(mid <= high && String(input.data[mid][input.cols]).charAt(depth + 1) === "0") {
+        mid++;
+    }
+    node.cut = input.data[mid - 1][input.c];
+    node.kids.push(branches(input, low, mid - 1, depth + 1, pre.concat("|..")));
+    node.kids.push(branches(input, mid, high, depth + 1, pre.concat("|..")));
+    return node;
+}
+
+/*
+ *This function formats the output of the respective bands: the least and greatest
+ * values of c in the band, whichever way the rows are sorted, with either left out
+ * if that end of the band is open.
+ * It takes a bands object, holding the csv data, as a parameter, as well as the low
+ * number to cut at, the high number to cut at and which ends of the band are open.
+ */
+function band(input: bands, low: number, high: number, openMin: boolean, openMax: boolean) {
+    if(!input.numeric) {
+        return common(input, low, high);
+    }
+    let min: Cell = input.data[low][input.c];
+    let max: Cell = min;
+    for(let i = low + 1; i <= high; i++) {
+        let x: Cell = input.data[i][input.c];
+        min = before(x, min) ? x : min;
+        max = before(max, x) ? x : max;
+    }
+    return (openMin ? "" : String(min)).concat("..", openMax ? "" : String(max));
+}
+
+/*
+ * This function labels a band of rows cut on their class, which has no range: by
+ * the class most of them have, and how many of them have it, such as "yes:5/9".
+ * It takes a bands object, holding the csv data, as a parameter, as well as the
+ * first and last row of the band.
+ */
+function common(input: bands, low: number, high: number) {
+    let counts: {[klass: string]: number} = {};
+    let most: string = String(input.data[low][input.c]);
+    for(let i = low; i <= high; i++) {
+        let k: string = String(input.data[i][input.c]);
+        counts[k] = (counts[k] || 0) + 1;
+        most = counts[k] > counts[most] ? k : most;
+    }
+    return most.concat(":", String(counts[most]), "/", String(high - low + 1));
+}
+
+/*
+ * This function compares two values of c: numbers by value, symbols as text.
+ */
+function before(x: Cell, y: Cell): boolean {
+    if(typeof x === "number" && typeof y === "number") {
+        return x < y;
+    }
+    return String(x) < String(y);
+}
+
+/*
+ * This function labels the rows cut by argmin (see cuts.ts) with their bands.
+ * It takes the rows, with the cut column last, and returns them labelled,
+ * with the "!klass" column in place of the cut column, together with the cut
+ * tree, whose nodes have their band labels and goal summaries filled in.
+ * The rows passed in are not changed. Throws an Error for an unknown goal.
+ */
+export function labelBestRest(data: Rows, options: LabelOptions = {}): Labels {
+    let csv = new bands();
+    if(options.log) {
+        csv.log = options.log;
+    }
+    csv.dataSet(tableOf(data), options.goal);
+    //Two spaces, as when argmin joined its header with ", " (so the text still
+    //matches run.out)
+    csv.log("\n--  ".concat(String(csv.attributes[csv.c]).trim(), "----------"));
+    //Divide the data into best and the rest, or one band per leaf of the tree
+    let root: CutNode;
+    if(csv.lo <= csv.hi && csv.tree) {
+        root = branches(csv, csv.lo, csv.hi, 0, "|.. ");
+        leaves(csv);
+    } else if(csv.lo <= csv.hi) {
+        root = cuts(csv, csv.lo, "|.. ");
+    }
+    root = root || cutNode(".", csv.lo, csv.hi);
+    summarize(root, csv.data, csv.c, csv.cols);
+    return {
+        header: csv.attributes.slice(0, csv.cols).concat("!klass"),
+        rows: csv.data.map(row => row.slice(0, csv.cols + 1)),
+        tree: root
+    };
+}
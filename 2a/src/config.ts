@@ -0,0 +1,208 @@
+import * as fs from "fs";
+
+/**
+ * @file config.ts
+ *
+ * The settings shared by all the filters. The defaults mirror "Lean0()" in
+ * config.lua, so the TypeScript filters make the same choices as the Lua
+ * ones unless told otherwise. Settings can be changed, in order, by
+ *
+ *    1) a JSON file: ".leanrc.json" in the current directory, or the file
+ *       named by "--config=file";
+ *    2) command line flags naming a setting by its path, such as
+ *       "--label.cohen=0.2" or "--dom.samples=50".
+ *
+ * Every filter also accepts "--show-config", which prints the settings in
+ * effect (as JSON) and exits.
+ */
+
+export interface Tiles {
+    width: number;
+    chops: Array<[number, string]>;
+    bar: string;
+    star: string;
+    num: string;
+    sym: string;
+}
+
+export interface Config {
+    cohen: number;
+    distance: { k: number; p: number; kernel: string; samples: number };
+    dom: { samples: number };
+    domtree: { enough: number };
+    enough: number;
+    fft: { min: number };
+    label: { enough: number; cohen: number; margin: number };
+    nb: { m: number; k: number; enough: number };
+    num: { p: number };
+    random: { seed: number };
+    sample: { max: number };
+    sk: { cohen: number; conf: number };
+    stats: { conf: number; bootstraps: number; cf: number };
+    super: { enough: number; cohen: number; margin: number };
+    tiles: Tiles;
+}
+
+/**
+ * Returns a fresh copy of the default settings.
+ */
+export function Lean0(): Config {
+    return {
+        cohen: 0.2,
+        distance: { k: 1, p: 2, kernel: "triangle", samples: 64 },
+        dom: { samples: 100 },
+        domtree: { enough: 0.5 },
+        enough: 100,
+        fft: { min: 4 },
+        label: { enough: 0.5, cohen: 0.3, margin: 1.05 },
+        nb: { m: 2, k: 1, enough: 20 },
+        num: { p: 2 },
+        random: { seed: 10013 },
+        sample: { max: 512 },
+        sk: { cohen: 0.2, conf: 95 },
+        stats: { conf: 95, bootstraps: 375, cf: 0.147 },
+        super: { enough: 0.5, cohen: 0.3, margin: 1.05 },
+        tiles: {
+            width: 50,
+            chops: [[0.05, "-"], [0.25, " "], [0.5, " "], [0.75, "-"], [0.95, " "]],
+            bar: "|",
+            star: "*",
+            num: "%5.3f",
+            sym: "%20s"
+        }
+    };
+}
+
+// The settings in effect. Changed in place by configure().
+export var Lean: Config = Lean0();
+
+// The settings file read when no "--config" is given (if it exists).
+var RC: string = ".leanrc.json";
+
+/**
+ * Applies the settings file and the setting flags in "args" to Lean.
+ * Exits with an error for an unknown setting or a badly typed value.
+ *
+ * @param args the command line args (without "node" and the script)
+ * @returns the args that are not about settings, for the filter to handle
+ */
+export function configure(args: string[]): string[] {
+    var rest: string[] = [];
+    var flags: string[][] = [];
+    var file: string = fs.existsSync(RC) ? RC : undefined;
+    var show: boolean = false;
+    for (var arg of args) {
+        var m = /^--config=(.+)$/.exec(arg);
+        var flag = /^--([A-Za-z]\w*(\.\w+)*)=(.*)$/.exec(arg);
+        if (m)
+            file = m[1];
+        else if (arg === "--show-config")
+            show = true;
+        else if (flag && flag[1].split(".")[0] in Lean)
+            flags.push([flag[1], flag[3]]);
+        else
+            rest.push(arg);
+    }
+    if (file)
+        merge(Lean, readRC(file), file + ":");
+    for (var f of flags)
+        set(f[0], f[1]);
+    if (show) {
+        console.log(JSON.stringify(Lean, null, 2));
+        process.exit(0);
+    }
+    return rest;
+}
+
+/**
+ * Reads a settings file as JSON.
+ */
+function readRC(file: string): any {
+    try {
+        return JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (e) {
+        configErr(file + ": " + e.message);
+    }
+}
+
+/**
+ * Copies the settings in "from" over those in "to", checking that each one
+ * exists and keeps its type (a group of settings, such as "label", must be
+ * given as an object).
+ * @param where the path to "from", for error messages
+ */
+function merge(to: any, from: any, where: string) {
+    for (var key in from) {
+        if (!(key in to))
+            configErr("unknown setting " + where + key);
+        else if (isGroup(to[key]) && !isGroup(from[key]))
+            configErr("setting " + where + key + " should be an object, such as " +
+                JSON.stringify(to[key]));
+        else if (isGroup(to[key]))
+            merge(to[key], from[key], where + key + ".");
+        else if (typeof to[key] !== typeof from[key])
+            configErr("setting " + where + key + " should be a " + typeof to[key]);
+        else
+            to[key] = from[key];
+    }
+}
+
+/**
+ * Sets one setting from a command line flag such as "--label.cohen=0.2".
+ * The value is read as the type of the setting's default.
+ * @param path the dotted path of the setting
+ * @param value the text after the "="
+ */
+function set(path: string, value: string) {
+    var keys: string[] = path.split(".");
+    var at: any = Lean;
+    for (var i = 0; i < keys.length - 1; i++) {
+        at = at[keys[i]];
+        if (typeof at !== "object")
+            configErr("unknown setting " + path);
+    }
+    var key: string = keys[keys.length - 1];
+    if (!(key in at))
+        configErr("unknown setting " + path);
+    if (isGroup(at[key]))
+        configErr("setting " + path + " is a group of settings: set one of them, such as --" +
+            path + "." + Object.keys(at[key])[0] + "=" + at[key][Object.keys(at[key])[0]]);
+    var x: any;
+    if (typeof at[key] === "number")
+        x = Number(value);
+    else if (typeof at[key] === "string")
+        x = value;
+    else
+        x = parse(value);
+    if (typeof at[key] === "number" && isNaN(x))
+        configErr("setting " + path + " should be a number, not " + value);
+    if (typeof x !== typeof at[key])
+        configErr("setting " + path + " should be a " + typeof at[key]);
+    at[key] = x;
+}
+
+/**
+ * True for a group of settings (an object, other than a list).
+ */
+function isGroup(x: any): boolean {
+    return typeof x === "object" && x !== null && !(x instanceof Array);
+}
+
+/**
+ * Reads a structured (JSON) value given on the command line.
+ */
+function parse(value: string): any {
+    try {
+        return JSON.parse(value);
+    } catch (e) {
+        return value;
+    }
+}
+
+/**
+ * Prints an error about the settings and halts execution of the program
+ */
+function configErr(message: string): void {
+    process.stderr.write("Invalid configuration: " + message + "\n");
+    process.exit(-1);
+}
@@ -0,0 +1,413 @@
+#!/usr/bin/env node
+
+import * as child_process from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { Lean, configure } from "./config";
+import { Parser } from "./formats";
+import { Num, num, numDec, numInc } from "./num";
+import { Labels, runPipeline } from "./pipeline";
+import { rand, rseed } from "./random";
+import { Key, compareRows, sortByGoal, sortKeys } from "./sortrows";
+import { Strategy, isSorted, strategies } from "./sorts";
+import { Cell, Table } from "./table";
+
+/**
+ * @file conformance.ts
+ *
+ * Checks that the TypeScript pipe still does what the Lua code it replaces
+ * does, and that its numerics and sorts keep their promises:
+ *
+ *     node conformance.js [--lua=lua] [--trials=100] [file.csv ...]
+ *
+ * Differential checks: each dataset (by default run.in and the weather and
+ * auto data of ../test/data) is labelled by "label()" of bestrest.lua, run
+ * by the Lua interpreter on this directory's Lua files, and by runPipeline()
+ * (the same stages as sortlastcol, argmin and Pipe3; see pipeline.ts).
+ * Datasets without a ">dom" column are scored by dom.js first, as the
+ * Makefile's examples score them with dom.lua, so both sides get the same
+ * rows. The bands each side found, and the "!klass" of every row, must be
+ * the same: rows are matched by their cells (in order, for rows that are the
+ * same), and band labels compared as numbers. Both sides must label the same
+ * rows, so a row only one side has is a difference too. The first row that
+ * differs is reported. Without a Lua interpreter, these checks fail, unless
+ * "--no-lua" says to skip them.
+ *
+ * Property checks, on "trials" random cases each (from the seedable
+ * generator in random.ts, so failures can be repeated):
+ *    - numInc() gives the mean and standard deviation of all the values
+ *    - numDec() undoes numInc(): adding values, then removing them again,
+ *      leaves the statistics of the values before them
+ *    - every sorting algorithm registered in sorts.ts sorts rows on their
+ *      keys (as isSorted() checks), keeps ties in input order, loses no
+ *      rows, and puts rows with an unknown first key last
+ *
+ * Every check prints a line starting "ok" or "FAIL", and the program exits
+ * with an error if any check failed. Command line args:
+ * --lua=cmd   = the Lua interpreter (default lua)
+ * --no-lua    = skip the differential checks
+ * --trials=n  = the number of cases of each property check
+ */
+
+// The datasets checked by default, and where the Lua files are.
+var DATASETS: string[] = ["run.in", "../test/data/weather.csv", "../test/data/auto.csv"];
+var SRC: string = ".";
+
+// The largest table the sort checks make.
+var MOST: number = 40;
+
+// the Lua interpreter, the number of cases of each property, the datasets
+var lua: string = "lua";
+var trials: number = 100;
+var datasets: string[] = [];
+var failures: number = 0;
+
+for (var arg of configure(process.argv.slice(2))) {
+    var m = /^--(lua|trials)=(.+)$/.exec(arg);
+    if (m && m[1] === "lua")
+        lua = m[2];
+    else if (m && /^\d+$/.test(m[2]))
+        trials = Number(m[2]);
+    else if (arg === "--no-lua")
+        lua = undefined;
+    else if (arg.indexOf("--") != 0)
+        datasets.push(arg);
+    else
+        argsErr();
+}
+
+if (lua)
+    for (var file of datasets.length > 0 ? datasets : DATASETS)
+        differ(file);
+rseed(Lean.random.seed);
+property("numInc matches the batch mean and sd", incMatchesBatch);
+property("numDec undoes numInc", decUndoesInc);
+for (var s of strategies())
+    property("the " + s.name + " sort passes isSorted, keeps ties and loses no rows", sorts(s));
+if (failures > 0) {
+    process.stderr.write("-- " + failures + " check(s) failed\n");
+    process.exit(-1);
+}
+
+/**
+ * Prints an error message and halts execution of the program
+ */
+function argsErr(): void {
+    process.stderr.write("Invalid command line args\n");
+    process.stderr.write("file.csv ...: the datasets to label with Lua and TypeScript (default: " +
+        DATASETS.join(", ") + ")\n");
+    process.stderr.write("--lua=cmd: the Lua interpreter (default lua)\n");
+    process.stderr.write("--no-lua: skip the differential checks\n");
+    process.stderr.write("--trials=n: the number of cases of each property check (default 100)\n");
+    process.stderr.write("--show-config: print the settings (see config.ts)\n");
+    process.exit(-1);
+}
+
+/**
+ * Prints the outcome of one check.
+ */
+function report(ok: boolean, what: string): void {
+    console.log((ok ? "ok   " : "FAIL ") + what);
+    if (!ok)
+        failures++;
+}
+
+//--------------------------------------------------------------------------
+// Differential checks
+
+/**
+ * Labels one dataset with Lua and with TypeScript, and reports the first
+ * difference.
+ */
+function differ(file: string): void {
+    var text: string;
+    try {
+        text = fs.readFileSync(file, "utf8");
+    } catch (e) {
+        report(false, file + ": " + e.message);
+        return;
+    }
+    if (!/(^|,)\s*>dom\s*(,|$)/.test(text.split("\n")[0])) {
+        var scored = child_process.spawnSync(process.execPath, [path.join(__dirname, "dom.js")], { input: text });
+        if (scored.status !== 0) {
+            report(false, file + ": dom.js failed: " + String(scored.stderr).trim());
+            return;
+        }
+        text = String(scored.stdout);
+    }
+    var theirs = child_process.spawnSync(lua, ["-e",
+        "package.path = package.path .. ';" + SRC + "/?.lua'; require('lib'); main(require('bestrest'))"],
+        { input: text });
+    if (theirs.error && (<NodeJS.ErrnoException>theirs.error).code === "ENOENT") {
+        report(false, file + ": " + lua + " not found (give --no-lua to skip the checks against Lua)");
+        return;
+    }
+    if (theirs.error || theirs.status !== 0) {
+        report(false, file + ": cannot run " + lua + ": " +
+            (theirs.error ? theirs.error.message : String(theirs.stderr).trim()));
+        return;
+    }
+    var expected: Cell[][] = fromLua(String(theirs.stdout));
+    var got: Labels = runPipeline(records(text));
+    var problem: string = differences(expected, (<Cell[][]>[got.header]).concat(got.rows));
+    report(!problem, file + ": " + got.rows.length + " rows" + (problem ? ": " + problem : ""));
+}
+
+/**
+ * The records of some csv text: the header, then the rows.
+ */
+function records(text: string): Cell[][] {
+    var parser: Parser = new Parser("csv");
+    var result: Cell[][] = [];
+    for (var line of text.split("\n"))
+        for (var cells of parser.push(line.replace(/\r$/, "")))
+            result.push(cells);
+    return result;
+}
+
+/**
+ * The labelled table bestrest.lua printed: the lines from its header (the
+ * one ending in "!klass") on, less the lines it prints as it goes ("band")
+ * and its warnings ("-- ...").
+ */
+function fromLua(out: string): Cell[][] {
+    var lines: string[] = out.split("\n");
+    var start: number = 0;
+    while (start < lines.length && !/,\s*!klass\s*$/.test(lines[start]))
+        start++;
+    return records(lines.slice(start)
+        .filter(line => line.trim() !== "band" && line.indexOf("--") != 0)
+        .join("\n"));
+}
+
+/**
+ * The first difference between two labellings (in their bands, or in the
+ * "!klass" of a row, or a row only one of them has), or undefined if there
+ * is none.
+ */
+function differences(expected: Cell[][], got: Cell[][]): string {
+    if (expected.length == 0)
+        return "no table from Lua";
+    var k: number = got[0].length - 1;
+    var theirs: string[] = bands(expected);
+    var ours: string[] = bands(got);
+    if (theirs.join(" ") !== ours.join(" "))
+        return "bands differ: Lua " + theirs.join(" ") + ", TypeScript " + ours.join(" ");
+    var counts: string = expected.length == got.length ? ""
+        : "Lua labels " + (expected.length - 1) + " rows, TypeScript " + (got.length - 1) + "; ";
+    //the rows Lua labelled, by their cells, in order
+    var rows: { [cells: string]: number[] } = {};
+    for (var i = 1; i < expected.length; i++) {
+        var key: string = cellsOf(expected[i]);
+        (rows[key] = rows[key] || []).push(i);
+    }
+    for (var i = 1; i < got.length; i++) {
+        var theirRow: number = (rows[cellsOf(got[i])] || []).shift();
+        var label: string = theirRow === undefined ? undefined : band(expected[theirRow][expected[theirRow].length - 1]);
+        if (label !== band(got[i][k]))
+            return counts + "row " + i + " (" + got[i].slice(0, k).join(",") + "): Lua " +
+                (label === undefined ? "has no such row" : "says " + label) + ", TypeScript says " + got[i][k];
+    }
+    //the rows Lua labelled that TypeScript did not
+    for (var i = 1; i < expected.length; i++) {
+        var left: number[] = rows[cellsOf(expected[i])];
+        if (left.length > 0 && left[0] == i)
+            return counts + "Lua row " + i + " (" + expected[i].slice(0, -1).join(",") + "): Lua says " +
+                expected[i][expected[i].length - 1] + ", TypeScript has no such row";
+    }
+    return undefined;
+}
+
+/**
+ * The cells of a row other than its label, as numbers where they are
+ * numbers, so "10" and "10.0" are the same.
+ */
+function cellsOf(row: Cell[]): string {
+    return JSON.stringify(row.slice(0, -1).map(x => String(x).trim() !== "" && !isNaN(Number(x)) ? Number(x) : String(x).trim()));
+}
+
+/**
+ * A band label with its bounds as numbers ("0.50..1.0" is "0.5..1").
+ */
+function band(x: Cell): string {
+    return String(x).trim().split("..").map(bound => bound === "" || isNaN(Number(bound)) ? bound : String(Number(bound))).join("..");
+}
+
+/**
+ * The bands of a labelling, sorted.
+ */
+function bands(table: Cell[][]): string[] {
+    var seen: string[] = [];
+    for (var i = 1; i < table.length; i++) {
+        var b: string = band(table[i][table[i].length - 1]);
+        if (seen.indexOf(b) < 0)
+            seen.push(b);
+    }
+    return seen.sort();
+}
+
+//--------------------------------------------------------------------------
+// Property checks
+
+/**
+ * Runs a property on "trials" random cases, and reports the first case it
+ * fails on.
+ * @param check returns a description of the failure, or undefined
+ */
+function property(what: string, check: () => string): void {
+    for (var i = 0; i < trials; i++) {
+        var problem: string = check();
+        if (problem) {
+            report(false, what + ": case " + (i + 1) + ": " + problem);
+            return;
+        }
+    }
+    report(true, what + " (" + trials + " cases)");
+}
+
+/**
+ * Random values: up to "most" of them, some of them the same, and some
+ * (with "unknowns") unknown.
+ */
+function values(most: number, unknowns: boolean = false): Cell[] {
+    var n: number = Math.floor(rand() * (most + 1));
+    var scale: number = 10 ** Math.floor(rand() * 7 - 3);
+    var xs: Cell[] = [];
+    for (var i = 0; i < n; i++) {
+        var x: number = Math.round((rand() * 2 - 1) * 100) * scale;
+        if (unknowns && rand() < 0.1)
+            xs.push("?");
+        else if (i > 0 && rand() < 0.2)
+            xs.push(xs[Math.floor(rand() * i)]);
+        else
+            xs.push(x);
+    }
+    return xs;
+}
+
+/**
+ * True if two numbers are the same, give or take rounding: to "digits"
+ * significant digits of the biggest of them, 1, and "scale".
+ */
+function close(x: number, y: number, digits: number, scale: number): boolean {
+    return Math.abs(x - y) <= 10**-digits * Math.max(1, Math.abs(x), Math.abs(y), scale);
+}
+
+/**
+ * The mean and sd of the known values, computed in one go.
+ */
+function batch(xs: Cell[]): [number, number] {
+    var known: number[] = <number[]>xs.filter(x => x !== "?");
+    var mean: number = 0;
+    for (var x of known)
+        mean += x / known.length;
+    var ss: number = 0;
+    for (var x of known)
+        ss += (x - mean) * (x - mean);
+    return [mean, known.length > 1 ? Math.sqrt(ss / (known.length - 1)) : 0];
+}
+
+/**
+ * Describes how a summary differs from the batch statistics of some values.
+ * @param digits how many digits must agree (see close())
+ * @param scale the size of the biggest value the summary has seen, as
+ *        rounding errors grow with it
+ */
+function compare(s: Num, xs: Cell[], digits: number, scale: number = 0): string {
+    var b: [number, number] = batch(xs);
+    var n: number = xs.filter(x => x !== "?").length;
+    if (s.count != n || !close(s.mean, b[0], digits, scale) || !close(s.sd, b[1], digits, scale))
+        return "count, mean, sd " + [s.count, s.mean, s.sd].join(", ") +
+            ", not " + [n, b[0], b[1]].join(", ") + " for " + xs.join(",");
+    return undefined;
+}
+
+/**
+ * numInc() on some values gives their batch statistics.
+ */
+function incMatchesBatch(): string {
+    var xs: Cell[] = values(50, true);
+    var s: Num = num();
+    for (var x of xs)
+        numInc(s, x);
+    return compare(s, xs, 9);
+}
+
+/**
+ * numInc() on some values and then on some more, then numDec() on the
+ * more (in any order), gives the statistics of the first values. There are
+ * at least two first values, as numDec() keeps the last value it is given.
+ * Taking values out loses more precision than putting them in (the sum of
+ * squares shrinks by differences), so fewer digits need agree, of the
+ * biggest value.
+ */
+function decUndoesInc(): string {
+    //the first values and the more, split from one list so they are of a
+    //size (removing big values from small ones loses every digit)
+    var all: Cell[] = values(100, true);
+    while (all.filter(x => x !== "?").length < 2)
+        all.push(Math.round(rand() * 100));
+    var k: number = 0;
+    for (var known = 0; known < 2; k++)
+        if (all[k] !== "?")
+            known++;
+    k += Math.floor(rand() * (all.length - k + 1));
+    var xs: Cell[] = all.slice(0, k);
+    var more: Cell[] = all.slice(k);
+    var s: Num = num();
+    for (var x of xs.concat(more))
+        numInc(s, x);
+    //removed in a random order
+    var order: Cell[] = more.slice();
+    for (var i = order.length - 1; i > 0; i--) {
+        var j: number = Math.floor(rand() * (i + 1));
+        var tmp: Cell = order[i];
+        order[i] = order[j];
+        order[j] = tmp;
+    }
+    for (var x of order)
+        numDec(s, x);
+    var biggest: number = 0;
+    for (var x of all)
+        if (x !== "?")
+            biggest = Math.max(biggest, Math.abs(<number>x));
+    return compare(s, xs, 6, biggest);
+}
+
+/**
+ * The property of one sorting algorithm: random rows, sorted on a column
+ * ascending and then on one descending, come out sorted (by isSorted()),
+ * with ties in input order, with no rows lost, and with the rows whose
+ * first key is unknown last.
+ */
+function sorts(s: Strategy): () => string {
+    return function (): string {
+        var firsts: Cell[] = values(Math.min(s.limit || MOST, MOST), true);
+        var header: string[] = ["?at", "$a", "<b"];
+        var rows: Cell[][] = firsts.map((x: Cell, at: number) =>
+            [at, x, Math.floor(rand() * 5)]);
+        var sorted: Cell[][];
+        try {
+            sorted = sortByGoal({ header: header, rows: rows }, { keys: ["$a", "<b"], strategy: s.name }).rows;
+        } catch (e) {
+            return e.message;
+        }
+        var keys: Key[] = sortKeys(new Table(header), ["$a", "<b"]);
+        var cmp = compareRows(keys);
+        var known: Cell[][] = sorted.filter(row => row[1] !== "?");
+        var where: string = " for " + rows.map(row => "(" + row.slice(1).join(",") + ")").join(" ");
+        if (sorted.length != rows.length)
+            return sorted.length + " rows, not " + rows.length + where;
+        if (sorted.map(row => row[0]).sort().join() !== rows.map(row => row[0]).sort().join())
+            return "rows lost or repeated" + where;
+        if (!isSorted(known, cmp))
+            return "not sorted" + where;
+        for (var i = 1; i < known.length; i++)
+            if (cmp(known[i - 1], known[i]) == 0 && known[i - 1][0] > known[i][0])
+                return "ties out of input order" + where;
+        for (var i = known.length; i < sorted.length; i++)
+            if (sorted[i][1] !== "?")
+                return "unknowns not last" + where;
+        return undefined;
+    };
+}
@@ -0,0 +1,306 @@
+import { Lean } from "./config";
+import { Objective, objective } from "./objectives";
+import { sortByGoal } from "./sortrows";
+import { Cell, Col, Rows, Table, bareName, goalOf, tableOf } from "./table";
+
+/**
+ * @file cuts.ts
+ *
+ * The second stage of the pipe, as a library (see argmin.ts, which runs it
+ * as a filter, and pipeline.ts). It groups records, sorted numerically by
+ * their goal column, into "best" and "rest" classes by:
+ *
+ *    1) Determining an index to split the records on such that aggregate
+ *       variance between records above and below the index is minimized.
+ *
+ *           i.e.: Records are split into two groups, those below and above the
+ *           index. Standard deviation is calculated for each group, and then
+ *           the expected value of these two standard deviations is calculated.
+ *
+ *    2) Splitting the records on this index.
+ *    3) Repeat 1 and 2 on the records above the split index until either:
+ *           - There are sqrt( dataset_length) records above or
+ *             below are the split index. ( minBinSize )
+ *           - The range of the values above or below the split index is
+ *             less than (0.3 * stddev( dataset[ last_index ] )). ( minRise )
+ *
+ * The "best" records are those remaining in the uppermost partition. The "rest"
+ * is everything else.
+ *
+ * The standard deviation is the default "objective" (see objectives.ts),
+ * and others can be chosen by name: the median absolute deviation,
+ * variance reduction, or the entropy or Gini impurity of a symbolic goal
+ * (entropy is the default for those; the range check, which needs
+ * numbers, is then skipped). The name of the objective that made the cuts
+ * is recorded in the header, as the name of the cut column:
+ *
+ *     ..., >dom, ?cut:sd
+ *
+ * (the "?" tells the later filters that the column is not data).
+ *
+ * The records are cut on the goal of the pipe (see table.ts), as sorted by
+ * sortlastcol, unless another "<" or ">" goal, or the "!" class, is given.
+ * The records are then sorted on a numeric goal first (as sortlastcol would,
+ * so the best come last, whether it is minimized or maximized), and the
+ * goal's name, without its "<", ">" or "!", follows the objective's in the
+ * cut column: "?cut:sd:ep". Records cut on their class are not sorted on it
+ * (every cut would then fall where the class changes): they are cut in the
+ * order they come, so that "sortlastcol -k '$temp' | argmin --goal '!play'"
+ * cuts the temperatures where the mix of "play" changes most.
+ *
+ * With "both", step 3 recurses into the records below each split as well
+ * as those above it, so the records end up in a tree of partitions rather
+ * than a list. The cut column is then named "?tree:<objective>", and holds
+ * the path to each record's partition: "." for the root, then "0" for
+ * every step down into the records below a split and "1" for every step up
+ * into those above it (e.g. ".10"). Pipe3 labels each leaf of the tree as a
+ * band of its own.
+ *
+ * The spreads of the partitions come from prefix sums of the goal column,
+ * computed once, so each candidate split index costs O(1). The cuts are the
+ * same as those of the rolling numInc()/numDec() search this replaced;
+ * "run.cuts" holds that search's cuts for "run.in", and src/run checks them.
+ *
+ * The 0.5 power behind sqrt(), the 0.3 and the 5% margin a split must win by
+ * are the "label" settings (enough, cohen, margin); see config.ts.
+ */
+
+export interface CutOptions {
+    // the name of the objective (see objectives.ts; by default sd, or
+    // entropy for a symbolic goal)
+    objective?: string;
+    // true to partition the records on both sides of each split, into a tree
+    both?: boolean;
+    // the name of the goal (or class) to cut on (see goalOf() in table.ts),
+    // if not the goal of the pipe
+    goal?: string;
+}
+
+// A partition found by "argmin()": the records before index "cut" go below
+// it, and "score" is the expected value of the spreads of the two
+// partitions (times the margin).
+interface Split {
+    cut:number;
+    score:number;
+}
+
+// What "argmin()" returns when no index is worth splitting on.
+var NO_SPLIT:Split = { cut: -1, score: Infinity };
+
+/**
+ * Calculates the indices on which to repeatedly partition the records
+ * such that the expected value of the standard deviations of each
+ * partition's "dom" values is minimized. The upper bound of the partition
+ * a record belongs to is appended to each record, as a new last column.
+ * All records with the number of data rows as this last column are those
+ * belonging to the "best" group. The rest are, well, the "rest".
+ *
+ * Rows whose goal value is unknown ("?") are never cut; they get "?" as
+ * their cut, and stay before or after the others, wherever the sort put
+ * the first of them.
+ *
+ * Throws an Error for an unknown goal or objective, or an objective that
+ * does not suit the goal.
+ *
+ * @param data: the header and rows (a Table will do), sorted on the goal
+ * @return The header and rows, with the cut column added
+ */
+export function findCuts( data:Rows, options:CutOptions = {} ):Rows {
+    var t:Table = tableOf( data );
+
+    // The column we group on (the ">dom" score, see table.ts, unless
+    // another goal is given, in which case the rows are sorted on it).
+    var goal:Col = goalOf( t, options.goal );
+    if ( options.goal && goal.num ) {
+        t = tableOf( sortByGoal( t, { keys: [ goal.name ] } ) );
+        goal = goalOf( t, options.goal );
+    }
+
+    // The rows with a known goal, and those whose goal is unknown ("?").
+    var rows:Cell[][] = [];
+    var unknown:Cell[][] = [];
+    for ( var row of t.rows ) {
+        if ( row[ goal.pos ] === "?" ) unknown.push( row );
+        else rows.push( row );
+    }
+
+    // The number of unknown rows printed before the known ones. Cuts are
+    // offset by this much, so they still index the rows as printed.
+    var lead:number = ( t.rows.length > 0 && t.rows[ 0 ][ goal.pos ] === "?" ) ? unknown.length : 0;
+
+    var numRows:number = rows.length;
+
+    // The minumum number of records allowed in a single partition.
+    // The choice of split index depends on this value.
+    var minBinSize:number = Math.floor( numRows ** Lean.label.enough );
+
+    // Stores the goal column of the data (i.e. the "dom" values).
+    var goalCol:Cell[] = rows.map( row => row[ goal.pos ] );
+
+    // Picks the objective: the one named, else the default for the goal,
+    // and the spread of the goal values of records "lo" up to (not
+    // including) "hi" by it.
+    var scoring:Objective = objective( options.objective || ( goal.num ? "sd" : "entropy" ) );
+    if ( !scoring ) {
+        throw new Error( "No such objective: " + options.objective );
+    }
+    if ( scoring.numeric != !!goal.num ) {
+        throw new Error( "The " + scoring.name + " objective needs a " +
+                         ( scoring.numeric ? "numeric" : "symbolic" ) + " goal" );
+    }
+    var spread:( lo:number, hi:number ) => number = scoring.prepare( goalCol );
+
+    // The minimum range of "dom" values for a partition of the records,
+    // from the standard deviation of all of them.
+    // ( Lean.label.cohen is a medium range "effect size" value. )
+    var minRise:number;
+    if ( goal.num ) minRise = Lean.label.cohen * goal.num.sd;
+
+    // The rows as they come out, with their cuts.
+    var out:Cell[][] = [];
+
+    /**
+     * Returns the expected value of the spreads of "dom" values for the
+     * two partitions of the records currently being considered in
+     * "argmin()".
+     *
+     * @param countA:  number of records in one partition
+     * @param spreadA: spread of that partition
+     * @param countB:  number of records in the other
+     * @param spreadB: spread of the other
+     */
+    function getTotalVariance( countA:number, spreadA:number, countB:number, spreadB:number ):number {
+        var count:number = countA + countB + 0.0001;
+        return ( countA / count ) * spreadA + ( countB / count ) * spreadB;
+    }
+
+    /**
+     * Calculates the index on which to partition the records from "min" to
+     * "max" such that the expected value of the spreads
+     * is minimized and no stopping condition (< minRise or < minBinSize)
+     * is reached.
+     *
+     * @param  min: the lower bound of the range of records to consider
+     * @param  max: the upper bound (not included) of that range
+     * @return The best split, or NO_SPLIT if no index qualifies
+     */
+    function argmin( min:number, max:number ):Split {
+        var split:Split = NO_SPLIT;
+
+        // If the range of records to consider isn't large enough, there
+        // is no split.
+        if ( ( max - min ) <= ( 2 * minBinSize ) ) return split;
+
+        // A split has to beat not splitting at all.
+        var best:number = spread( min, max );
+
+        // The range of the records below the split grows as the split moves
+        // up. For the records above it, the range of all the records from
+        // "min" to "max" is used, as "numDec()" never shrinks "max" and "min".
+        // ( Symbolic goals have no range to check. )
+        var belowMax:number = -1 * 10**32;
+        var belowMin:number = 10**32;
+        var aboveMax:number = -1 * 10**32;
+        var aboveMin:number = 10**32;
+        for ( var i = min; i < max && goal.num; i++ ) {
+            aboveMax = Math.max( aboveMax, <number>goalCol[ i ] );
+            aboveMin = Math.min( aboveMin, <number>goalCol[ i ] );
+        }
+
+        // Each index is considered for being the best split, according to
+        // the expected value of the spreads of the partitions.
+        for ( var cut = min + 1; cut < max; cut++ ) {
+            var below:number = cut - min;
+            var above:number = max - cut;
+
+            // Skips splits that leave a partition too small, or with too
+            // small a range of values.
+            if ( goal.num ) {
+                belowMax = Math.max( belowMax, <number>goalCol[ cut - 1 ] );
+                belowMin = Math.min( belowMin, <number>goalCol[ cut - 1 ] );
+                if ( belowMax - belowMin <= minRise ) continue;
+                if ( aboveMax - aboveMin <= minRise ) continue;
+            }
+            if ( below < minBinSize || above < minBinSize ) continue;
+
+            // If the current split has a lower aggregate variance,
+            // it is set as the new best value.
+            var tmp:number = getTotalVariance( below, spread( min, cut ),
+                                               above, spread( cut, max ) ) * Lean.label.margin;
+            if ( tmp < best ) {
+                split = { cut: cut, score: tmp };
+                best = tmp;
+            }
+        }
+        return split;
+    }
+
+    /**
+     * Adds the records from "lo" up to (not including) "hi" to the output,
+     * with "cut" as their last column.
+     */
+    function printRows( lo:number, hi:number, cut:string ) {
+        for ( var i = lo; i < hi; i++ ) {
+            out.push( rows[ i ].concat( cut ) );
+        }
+    }
+
+    /**
+     * Adds the rows with an unknown goal to the output, with "?" as their cut.
+     */
+    function printUnknown() {
+        for ( var row of unknown ) {
+            out.push( row.concat( "?" ) );
+        }
+    }
+
+    /**
+     * Partitions the records from "lo" up to (not including) "hi" on both
+     * sides of their best split, and so on down, then adds each leaf
+     * partition to the output with its path in the tree as the last column.
+     *
+     * @param path: the path to this partition ( "." for all the records )
+     */
+    function partition( lo:number, hi:number, path:string ) {
+        var split:Split = argmin( lo, hi );
+        if ( split === NO_SPLIT ) {
+            printRows( lo, hi, path );
+        } else {
+            partition( lo, split.cut, path + "0" );
+            partition( split.cut, hi, path + "1" );
+        }
+    }
+
+
+    // Rows with an unknown goal that the sort put first.
+    if ( lead > 0 ) printUnknown();
+
+    if ( options.both ) {
+        partition( 0, numRows, "." );
+    } else {
+        // Partitions the records above each cut again, adding each
+        // partition as it is found, until no split qualifies. Cuts are
+        // offset by the leading unknown rows.
+        var lo:number = 0;
+        var split:Split = argmin( lo, numRows );
+        while ( split !== NO_SPLIT ) {
+            printRows( lo, split.cut, String( split.cut + lead ) );
+            lo = split.cut;
+            split = argmin( lo, numRows );
+        }
+
+        // The records above the last cut are the "best"; their cut is "numRows".
+        printRows( lo, numRows, String( numRows + lead ) );
+    }
+
+    // Rows with an unknown goal that the sort put last.
+    if ( lead == 0 ) printUnknown();
+
+    // The attribute names, then the cut column, named for the objective
+    // (and the goal, if one was given).
+    return {
+        header: t.header.concat( ( options.both ? "?tree:" : "?cut:" ) + scoring.name +
+                                 ( options.goal ? ":" + bareName( goal ) : "" ) ),
+        rows: out
+    };
+}
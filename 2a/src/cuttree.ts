@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import { num, numInc } from "./num";
+import { Cell } from "./table";
+
+/**
+ * @file cuttree.ts
+ *
+ * The cut tree that Pipe3 builds as it bands the rows, and the reports that
+ * can be written from it (with "--report=file"):
+ *
+ *    json  the tree as nested objects, each with its "kids"
+ *    md    a Markdown table with one line per node
+ *    dot   a Graphviz digraph (e.g. "dot -Tpng cuts.dot > cuts.png")
+ *
+ * Each node covers a range of rows (counted from 0 after the header) and
+ * records the band label(s) of those rows, the min, max, mean and standard
+ * deviation of their goal, and, if the node was cut, the goal value it was
+ * cut at: rows up to that value go to the first kid, the rest to the second.
+ * Nodes are named by their path from the root: "." for the root, then "0"
+ * for the first kid and "1" for the second (e.g. ".10").
+ */
+
+export interface CutNode {
+    id: string;
+    // first and last row of the node
+    lo: number;
+    hi: number;
+    // the band label(s) of its rows, comma separated
+    band: string;
+    // summary of the goal values of its rows
+    min: number;
+    max: number;
+    mean: number;
+    sd: number;
+    // the goal value at the cut (undefined for a leaf)
+    cut: Cell;
+    kids: CutNode[];
+}
+
+export var FORMATS: string[] = ["json", "md", "dot"];
+
+/**
+ * Returns a node for rows lo..hi, with no kids and no summary yet.
+ */
+export function cutNode(id: string, lo: number, hi: number): CutNode {
+    return {
+        id: id, lo: lo, hi: hi, band: "",
+        min: undefined, max: undefined, mean: undefined, sd: undefined,
+        cut: undefined, kids: []
+    };
+}
+
+/**
+ * Fills in the band labels and goal summaries of a node and all its kids.
+ * @param node the root of the (sub)tree
+ * @param rows the rows, already labelled
+ * @param c the position of the goal in each row
+ * @param b the position of the band label in each row
+ */
+export function summarize(node: CutNode, rows: Cell[][], c: number, b: number): void {
+    var goal = num();
+    var bands: string[] = [];
+    for (var i = node.lo; i <= node.hi && i < rows.length; i++) {
+        numInc(goal, rows[i][c]);
+        var label: string = String(rows[i][b]);
+        if (bands.indexOf(label) < 0)
+            bands.push(label);
+    }
+    node.band = bands.join(", ");
+    if (goal.count > 0) {
+        node.min = goal.min;
+        node.max = goal.max;
+        node.mean = goal.mean;
+        node.sd = goal.sd;
+    }
+    for (var kid of node.kids)
+        summarize(kid, rows, c, b);
+}
+
+/**
+ * Writes the report on the tree to a file.
+ * @param file where to write it
+ * @param format one of FORMATS
+ */
+export function writeReport(file: string, format: string, root: CutNode): void {
+    var text: string;
+    if (format === "json")
+        text = JSON.stringify(root, null, 2) + "\n";
+    else if (format === "md")
+        text = markdown(root);
+    else
+        text = dot(root);
+    fs.writeFileSync(file, text);
+}
+
+/**
+ * The nodes of the tree, parents before kids.
+ */
+function nodes(root: CutNode): CutNode[] {
+    var all: CutNode[] = [root];
+    for (var kid of root.kids)
+        all = all.concat(nodes(kid));
+    return all;
+}
+
+/**
+ * Rounds a statistic for the text reports.
+ */
+function fmt(x: Cell): string {
+    if (x === undefined)
+        return "";
+    return typeof x === "number" ? String(Math.round(x * 1000) / 1000) : x;
+}
+
+/**
+ * A Markdown table with one line per node.
+ */
+function markdown(root: CutNode): string {
+    var lines: string[] = [
+        "| node | rows | band | cut | min | max | mean | sd |",
+        "|---|---|---|---|---|---|---|---|"
+    ];
+    for (var n of nodes(root))
+        lines.push("| " + [n.id, n.lo + ".." + n.hi, n.band.replace(/\|/g, "\\|"), fmt(n.cut),
+            fmt(n.min), fmt(n.max), fmt(n.mean), fmt(n.sd)].join(" | ") + " |");
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * A Graphviz digraph with one box per node, and edges labelled by the side
+ * of the cut they lead to.
+ */
+function dot(root: CutNode): string {
+    var q = (s: string) => "\"" + s.replace(/"/g, "\\\"") + "\"";
+    var lines: string[] = ["digraph cuts {", "  node [shape=box];"];
+    for (var n of nodes(root)) {
+        var label: string = "rows " + n.lo + ".." + n.hi + "\\n" + n.band +
+            "\\nmin " + fmt(n.min) + ", max " + fmt(n.max) +
+            "\\nmean " + fmt(n.mean) + ", sd " + fmt(n.sd);
+        lines.push("  " + q(n.id) + " [label=" + q(label) + "];");
+        if (n.kids.length == 2) {
+            lines.push("  " + q(n.id) + " -> " + q(n.kids[0].id) + " [label=" + q("<= " + fmt(n.cut)) + "];");
+            lines.push("  " + q(n.id) + " -> " + q(n.kids[1].id) + " [label=" + q("> " + fmt(n.cut)) + "];");
+        }
+    }
+    lines.push("}");
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+import { Lean, configure } from "./config";
+import { Writer, useFormats } from "./formats";
+import { useIds } from "./ids";
+import { numNorm } from "./num";
+import { another, rseed } from "./random";
+import { Cell, Col, Table, readTable, reportMissing } from "./table";
+import { useValidation } from "./validate";
+
+/**
+ * @file dom.ts
+ *
+ * This filter is the TypeScript port of "dom.lua", the first stage of the
+ * pipe:
+ *
+ *     dsl/monte_carlo | dsl/brooks2 | node dom.js | node sortlastcol.js | ...
+ *
+ * It reads comma-separated values from standard input, where the goals are
+ * the "<" (minimize) and ">" (maximize) columns of the header. Each row is
+ * compared against "samples" other rows picked at random, and its ">dom"
+ * score is the fraction of those rows it dominates. Goals are normalized
+ * to 0..1 (as numNorm does) and compared using continuous domination:
+ * moving from one row to the other loses less when going towards the
+ * better row.
+ *
+ * The rows are printed with the ">dom" score appended as a new last column.
+ * Random picks use the generator in random.ts, so a given seed gives the
+ * same scores as "dom.lua" for the same data. Command line args:
+ * -n=samples = number of comparisons per row (Lean.dom.samples, default 100)
+ * --seed=n   = random seed (Lean.random.seed, default 10013)
+ * --in, --out = input and output formats (see formats.ts)
+ */
+
+for (var arg of useIds(useValidation(useFormats(configure(process.argv.slice(2)))))) {
+    var m = /^(-n|--seed)=(\d+)$/.exec(arg);
+    if (!m)
+        argsErr();
+    else if (m[1] === "-n")
+        Lean.dom.samples = Number(m[2]);
+    else
+        Lean.random.seed = Number(m[2]);
+}
+rseed(Lean.random.seed);
+
+// number of random comparisons per row
+var samples: number = Lean.dom.samples;
+
+readTable(function (t: Table) {
+    reportMissing(t);
+    doms(t);
+});
+
+/**
+ * Prints an error message and halts execution of the program
+ */
+function argsErr(): void {
+    process.stderr.write("Invalid command line args\n");
+    process.stderr.write("-n=samples: comparisons per row (default 100)\n");
+    process.stderr.write("--seed=n: random seed (default 10013)\n");
+    process.stderr.write("--in csv|tsv|jsonl, --out csv|tsv|jsonl|arff: input and output formats\n");
+    process.stderr.write("--on-error=fail|skip|warn: what to do with bad input (see validate.ts)\n");
+    process.stderr.write("--id[=column]: add row IDs, or take them from a column (see ids.ts)\n");
+    process.stderr.write("--show-config: print the settings (see config.ts)\n");
+    process.exit(-1);
+}
+
+/**
+ * Continuous domination: true if row1 is better than row2 on the goals.
+ * @param goals the "<" and ">" columns
+ * @param row1 the row being scored
+ * @param row2 the row it is compared to
+ */
+function dom(goals: Col[], row1: Cell[], row2: Cell[]): boolean {
+    var n: number = goals.length;
+    var s1: number = 0;
+    var s2: number = 0;
+    for (var col of goals) {
+        var a: number = numNorm(col.num, row1[col.pos]);
+        var b: number = numNorm(col.num, row2[col.pos]);
+        s1 -= Math.pow(10, col.w * (a - b) / n);
+        s2 -= Math.pow(10, col.w * (b - a) / n);
+    }
+    return s1 / n < s2 / n;
+}
+
+/**
+ * Scores every row against "samples" random others, then prints the
+ * table with the scores as a new ">dom" column.
+ * @param t the table read from standard input
+ */
+function doms(t: Table): void {
+    var rows: Cell[][] = t.rows;
+    var out: Writer = new Writer(t.header.concat(">dom"), "dom");
+    for (var r1 = 0; r1 < rows.length; r1++) {
+        var score: number = 0;
+        //a lone row has nothing to be compared to
+        for (var s = 0; s < samples && rows.length > 1; s++) {
+            var row2: Cell[] = rows[another(r1, rows.length)];
+            if (dom(t.goals, rows[r1], row2))
+                score += 1 / samples;
+        }
+        out.row(rows[r1].concat(fmt(score)));
+    }
+    out.end();
+}
+
+/**
+ * Formats a number the way Lua prints it (14 significant digits), so the
+ * running sum of 1/samples prints as 0.94 rather than 0.9400000000000006.
+ */
+function fmt(x: number): string {
+    return String(parseFloat(x.toPrecision(14)));
+}
@@ -0,0 +1,356 @@
+#!/usr/bin/env node
+
+import * as fs from "fs";
+import { Lean, configure } from "./config";
+import { Writer, useFormats } from "./formats";
+import { useIds } from "./ids";
+import { Cell, Col, Table, bestKlass, readTable, reportMissing } from "./table";
+import { useValidation } from "./validate";
+
+/**
+ * @file fft.ts
+ *
+ * A fast-and-frugal tree learner: a short list of rules, each of which
+ * either decides a row is best (or rest) or passes it on to the next,
+ * learnt from the best/rest labels of Pipe3:
+ *
+ *     ... | node Pipe3.js | node fft.js
+ *
+ *     if $nprod >= 7.34 then best
+ *     else if $r < 97.74 then rest
+ *     else if $to >= 59.15 then best
+ *     else rest
+ *
+ * The best rows are those of the "!klass" label with the highest mean
+ * ">dom" score (as in rank.ts), and all other labelled rows are the rest.
+ * Each independent numeric column is discretized at its quartiles, giving
+ * the conditions "column < x" and "column >= x" for each quartile x, and
+ * each symbol of a symbolic column gives "column = symbol". A cell that is
+ * unknown ("?") meets no condition.
+ *
+ * A tree of depth d has d rules. Every rule but the last exits one way
+ * (best or rest) if its condition holds; the last exits one way if it
+ * holds and the other if it does not. Trees are grown for every depth up to
+ * Lean.fft.min (4), and every ordering of exits: each rule takes the
+ * condition that best picks out the rows of its exit among those the rules
+ * before it passed on, scored (as rank.lua scores symbols) by x^2/(x+y),
+ * where x and y are the fractions of those rows of the exit's class, and of
+ * the other class, that meet the condition. A rule never takes a condition
+ * that the rules before it settle, one way or the other, for the rows they
+ * pass on (as "x >= 2" is, once "x < 7" has failed).
+ *
+ * The tree kept is the best by the chosen metric, on the rows it was
+ * learnt from: accuracy (the default), recall (of best rows), or false alarm
+ * (the fraction of rest rows called best; lower is better). Ties go to the
+ * more accurate tree, then to the one with fewer rules.
+ *
+ * Command line args:
+ * --metric=accuracy|recall|false-alarm = how to pick the tree
+ * --json       = print the tree as JSON, to be applied to new rows with
+ * apply tree   = append the tree's label ("best" or "rest") to each row of
+ *                the input (the label goes in a new "!klass" column if the
+ *                rows have none, else in "?predicted")
+ * --in         = the input format (see formats.ts)
+ * --out        = the output format of apply (see formats.ts)
+ */
+
+// What a rule tests.
+interface Condition {
+    column: string;
+    op: string;
+    value: Cell;
+}
+
+// One rule of a tree: if the condition holds, the row's label is "exit".
+interface Rule {
+    condition: Condition;
+    exit: string;
+}
+
+// A tree, as printed by "--json" and read by "apply".
+interface Tree {
+    // the label of the best rows it was learnt from
+    best: string;
+    rules: Rule[];
+    // the label of the rows that meet no rule
+    otherwise: string;
+    // how well the tree does on the rows it was learnt from
+    accuracy: number;
+    recall: number;
+    falseAlarm: number;
+}
+
+// the metrics to pick the tree by, and whether bigger is better
+var METRICS: { [name: string]: [string, number] } = {
+    "accuracy": ["accuracy", 1],
+    "recall": ["recall", 1],
+    "false-alarm": ["falseAlarm", -1]
+};
+
+// the metric, print JSON, and the tree to apply (if any)
+var metric: string = "accuracy";
+var json: boolean = false;
+var treeFile: string;
+var applying: boolean = false;
+
+for (var arg of useIds(useValidation(useFormats(configure(process.argv.slice(2)))))) {
+    var m = /^--metric=(.+)$/.exec(arg);
+    if (m && METRICS[m[1]])
+        metric = m[1];
+    else if (arg === "--json")
+        json = true;
+    else if (arg === "apply" && !applying)
+        applying = true;
+    else if (applying && treeFile === undefined && arg.indexOf("--") != 0)
+        treeFile = arg;
+    else
+        argsErr();
+}
+if (applying && treeFile === undefined)
+    argsErr();
+
+readTable(function (t: Table) {
+    reportMissing(t);
+    if (applying) {
+        apply(t, load(treeFile));
+        return;
+    }
+    var tree: Tree = learn(t);
+    if (json)
+        console.log(JSON.stringify(tree, null, 2));
+    else
+        console.log(rules(tree));
+});
+
+/**
+ * Prints an error message and halts execution of the program
+ */
+function argsErr(): void {
+    process.stderr.write("Invalid command line args\n");
+    process.stderr.write("--metric=accuracy|recall|false-alarm: how to pick the tree\n");
+    process.stderr.write("--json: print the tree as JSON\n");
+    process.stderr.write("apply tree.json: label the rows with a tree printed by --json\n");
+    process.stderr.write("--in csv|tsv|jsonl, --out csv|tsv|jsonl|arff: input format, and apply's output format\n");
+    process.stderr.write("--on-error=fail|skip|warn: what to do with bad input (see validate.ts)\n");
+    process.stderr.write("--id[=column]: add row IDs, or take them from a column (see ids.ts)\n");
+    process.stderr.write("--show-config: print the settings (see config.ts)\n");
+    process.exit(-1);
+}
+
+/**
+ * Prints "message" and halts execution of the program
+ */
+function fail(message: string): void {
+    process.stderr.write(message + "\n");
+    process.exit(-1);
+}
+
+/**
+ * The conditions of the independent columns: at the quartiles of the
+ * numeric ones, and on every symbol of the symbolic ones.
+ */
+function conditions(t: Table): Condition[] {
+    var result: Condition[] = [];
+    for (var col of t.indeps) {
+        if (col.sym) {
+            for (var symbol in col.sym.counts)
+                result.push({ column: col.name, op: "=", value: symbol });
+            continue;
+        }
+        var xs: number[] = <number[]>t.rows.map(row => row[col.pos]).filter(x => x !== "?");
+        xs.sort((a: number, b: number) => a - b);
+        var seen: number[] = [];
+        for (var p of [0.25, 0.5, 0.75]) {
+            var x: number = xs[Math.min(xs.length - 1, Math.floor(p * xs.length))];
+            if (x === undefined || seen.indexOf(x) >= 0)
+                continue;
+            seen.push(x);
+            result.push({ column: col.name, op: "<", value: x });
+            result.push({ column: col.name, op: ">=", value: x });
+        }
+    }
+    return result;
+}
+
+/**
+ * True if the cell of a column meets a condition.
+ */
+function meets(c: Condition, cell: Cell): boolean {
+    if (cell === "?" || cell === undefined)
+        return false;
+    if (c.op === "=")
+        return String(cell) === String(c.value);
+    var x: number = Number(c.value);
+    return c.op === "<" ? Number(cell) < x : Number(cell) >= x;
+}
+
+/**
+ * True if a condition could still tell apart the rows that the rules so
+ * far passed on: that is, the conditions of those rules, which none of the
+ * rows met, neither imply it nor rule it out. Once "x < 7.49" has failed,
+ * "x >= 2.59" always holds of a known x, and "x < 2.59" never does.
+ * @param passed the conditions of the rules so far
+ */
+function open(c: Condition, passed: Condition[]): boolean {
+    //the values of the column the rows passed on can still have:
+    //low <= x < high, and none of "not"
+    var low: number = -Infinity;
+    var high: number = Infinity;
+    var not: string[] = [];
+    for (var p of passed) {
+        if (p.column !== c.column)
+            continue;
+        if (p.op === "=")
+            not.push(String(p.value));
+        else if (p.op === "<")
+            low = Math.max(low, Number(p.value));
+        else
+            high = Math.min(high, Number(p.value));
+    }
+    if (c.op === "=")
+        return not.indexOf(String(c.value)) < 0;
+    var x: number = Number(c.value);
+    return low < x && x < high;
+}
+
+/**
+ * Grows a tree for every depth and ordering of exits, and returns the best.
+ * @param t the table, labelled by Pipe3
+ */
+function learn(t: Table): Tree {
+    var klass: Col = t.klass;
+    if (!klass)
+        fail("No ! column to learn from (run Pipe3 first)");
+    var best: string = bestKlass(t, klass);
+    var rows: Cell[][] = t.rows.filter(row => row[klass.pos] !== "?");
+    var isBest: boolean[] = rows.map(row => String(row[klass.pos]) === best);
+    var all: Condition[] = conditions(t);
+    var pos: { [column: string]: number } = {};
+    for (var col of t.cols)
+        pos[col.name] = col.pos;
+    var kept: Tree;
+    var sign: number = METRICS[metric][1];
+    for (var depth = 1; depth <= Lean.fft.min; depth++)
+        for (var order = 0; order < (1 << depth); order++) {
+            //bit i of "order" is the exit of rule i: 1 for best, 0 for rest
+            var tree: Tree = grow(rows, isBest, all, pos, depth, order, best);
+            var a: number = sign * tree[METRICS[metric][0]];
+            var b: number = kept && sign * kept[METRICS[metric][0]];
+            if (!kept || a > b || (a == b && (tree.accuracy > kept.accuracy ||
+                (tree.accuracy == kept.accuracy && tree.rules.length < kept.rules.length))))
+                kept = tree;
+        }
+    return kept;
+}
+
+/**
+ * Grows one tree, rule by rule, on the rows the rules before pass on.
+ * A tree stops early if no condition holds for any row left; its last rule
+ * is then the last one added.
+ * @param order the exits of the rules, as bits (see learn())
+ */
+function grow(rows: Cell[][], isBest: boolean[], all: Condition[], pos: { [column: string]: number },
+    depth: number, order: number, best: string): Tree {
+    var left: number[] = rows.map((row, i) => i);
+    var tree: Tree = { best: best, rules: [], otherwise: "", accuracy: 0, recall: 0, falseAlarm: 0 };
+    for (var level = 0; level < depth && left.length > 0; level++) {
+        var exit: boolean = ((order >> level) & 1) == 1;
+        var mine: number = left.filter(i => isBest[i] == exit).length;
+        var other: number = left.length - mine;
+        var chosen: Condition;
+        var most: number = 0;
+        var passed: Condition[] = tree.rules.map(rule => rule.condition);
+        for (var c of all) {
+            if (!open(c, passed))
+                continue;
+            var x: number = 0;
+            var y: number = 0;
+            for (var i of left)
+                if (meets(c, rows[i][pos[c.column]]))
+                    isBest[i] == exit ? x++ : y++;
+            x = x / (mine || 1);
+            y = y / (other || 1);
+            var score: number = x > 0 ? x * x / (x + y) : 0;
+            if (score > most) {
+                most = score;
+                chosen = c;
+            }
+        }
+        if (!chosen)
+            break;
+        tree.rules.push({ condition: chosen, exit: exit ? "best" : "rest" });
+        left = left.filter(i => !meets(chosen, rows[i][pos[chosen.column]]));
+    }
+    //the last rule added exits the other way too, even if the tree stopped early
+    var last: Rule = tree.rules[tree.rules.length - 1];
+    tree.otherwise = last && last.exit === "rest" ? "best" : "rest";
+    //how well the tree labels the rows it was learnt from
+    var tp: number = 0, fp: number = 0, tn: number = 0, fn: number = 0;
+    rows.forEach(function (row: Cell[], i: number) {
+        var said: boolean = label(tree, row, name => pos[name]) === "best";
+        if (said)
+            isBest[i] ? tp++ : fp++;
+        else
+            isBest[i] ? fn++ : tn++;
+    });
+    tree.accuracy = (tp + tn) / (rows.length || 1);
+    tree.recall = tp / (tp + fn || 1);
+    tree.falseAlarm = fp / (fp + tn || 1);
+    return tree;
+}
+
+/**
+ * The label a tree gives a row: the exit of the first rule it meets.
+ * @param at the position of a column in the row, by name
+ */
+function label(tree: Tree, row: Cell[], at: (name: string) => number): string {
+    for (var rule of tree.rules)
+        if (meets(rule.condition, row[at(rule.condition.column)]))
+            return rule.exit;
+    return tree.otherwise;
+}
+
+/**
+ * The tree as plain English, one rule per line, after a line on how well
+ * it does.
+ */
+function rules(tree: Tree): string {
+    var r = (x: number) => String(Math.round(x * 1000) / 1000);
+    var lines: string[] = ["-- best is " + tree.best + ": accuracy " + r(tree.accuracy) +
+        ", recall " + r(tree.recall) + ", false alarm " + r(tree.falseAlarm)];
+    tree.rules.forEach(function (rule: Rule, i: number) {
+        var c: Condition = rule.condition;
+        lines.push((i > 0 ? "else " : "") + "if " + c.column + " " + c.op + " " + c.value + " then " + rule.exit);
+    });
+    lines.push(tree.rules.length > 0 ? "else " + tree.otherwise : tree.otherwise);
+    return lines.join("\n");
+}
+
+/**
+ * Reads a tree printed by "--json".
+ */
+function load(file: string): Tree {
+    try {
+        var tree: Tree = JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (e) {
+        fail("Cannot read the tree " + file + ": " + e.message);
+    }
+    if (!tree || !tree.rules || !tree.otherwise)
+        fail("Not a tree: " + file);
+    return tree;
+}
+
+/**
+ * Prints each row with the label the tree gives it. A column the tree
+ * tests but the rows lack meets no condition.
+ */
+function apply(t: Table, tree: Tree): void {
+    var out: Writer = new Writer(t.header.concat(t.klass ? "?predicted" : "!klass"), "fft");
+    var at = function (name: string): number {
+        var col: Col = t.col(name);
+        return col ? col.pos : -1;
+    };
+    for (var row of t.rows)
+        out.row(row.concat(label(tree, row, at)));
+    out.end();
+}
@@ -0,0 +1,366 @@
+import { Cell } from "./table";
+
+/**
+ * @file formats.ts
+ *
+ * The text formats the filters read and write:
+ *
+ *    csv    comma-separated values, as in RFC 4180: a value holding a comma,
+ *           a double quote or a line break is written in double quotes,
+ *           with its double quotes doubled
+ *    tsv    tab-separated values; a tab, line break or backslash in a value
+ *           is written as \t, \n (or \r) or \\
+ *    jsonl  JSON Lines: one JSON object per row, keyed by column name, with
+ *           null for an unknown ("?") value. On input, a line may also be a
+ *           JSON array of values, in which case the first line is the header
+ *    arff   Weka's Attribute-Relation File Format (output only). Columns
+ *           that are numeric by the header conventions of table.ts (or hold
+ *           only numbers) are "numeric", the rest nominal
+ *
+ * Every filter takes "--in format", and every filter that writes a table
+ * "--out format" (or "--in=format", "--out=format"). Without "--in", the format is sniffed from the first line
+ * of the input; without "--out", tables are written as csv. Whatever the
+ * format, the header is written with the same separator as the rows, and
+ * with the column names trimmed.
+ */
+
+export var INPUTS: string[] = ["csv", "tsv", "jsonl"];
+export var OUTPUTS: string[] = ["csv", "tsv", "jsonl", "arff"];
+
+// The format given with "--in" (sniffed from the input if undefined).
+export var inFormat: string;
+
+// The format given with "--out" (csv if undefined).
+export var outFormat: string;
+
+/**
+ * Takes "--in" and "--out" out of the command line args. Exits with an
+ * error for an unknown format.
+ *
+ * @param args the command line args (after configure(), see config.ts)
+ * @param out false for a filter that writes no table, which leaves "--out"
+ *            for it to reject
+ * @returns the args that are not about formats, for the filter to handle
+ */
+export function useFormats(args: string[], out: boolean = true): string[] {
+    var rest: string[] = [];
+    for (var i = 0; i < args.length; i++) {
+        var m = (out ? /^--(in|out)(=(.*))?$/ : /^--(in)(=(.*))?$/).exec(args[i]);
+        if (!m || (m[2] === undefined && i + 1 >= args.length)) {
+            rest.push(args[i]);
+            continue;
+        }
+        var format: string = m[2] === undefined ? args[++i] : m[3];
+        if (m[1] === "in" && INPUTS.indexOf(format) >= 0)
+            inFormat = format;
+        else if (m[1] === "out" && OUTPUTS.indexOf(format) >= 0)
+            outFormat = format;
+        else
+            formatErr("--" + m[1] + " " + format + " (use " +
+                (m[1] === "in" ? INPUTS : OUTPUTS).join("|") + ")");
+    }
+    return rest;
+}
+
+/**
+ * Guesses the format of the input from its first line.
+ */
+export function sniff(line: string): string {
+    if (/^\s*[\[{]/.test(line))
+        return "jsonl";
+    var tabs: number = line.split("\t").length;
+    var commas: number = line.split(",").length;
+    return tabs > commas ? "tsv" : "csv";
+}
+
+/**
+ * Turns lines of input into records: arrays of the values of one row (or
+ * of the column names, for the first record).
+ */
+export class Parser {
+    // csv, tsv or jsonl (undefined until the first line is sniffed)
+    format: string;
+    // the column names, for JSON Lines of objects
+    keys: string[];
+    // the start of a csv record whose quoted value runs onto the next line
+    pending: string;
+
+    constructor(format: string = inFormat) {
+        this.format = format;
+    }
+
+    /**
+     * Reads one line of input (without its line break).
+     * @returns the records the line completes: usually one, none for an
+     *          empty line or an unfinished csv record, and two (the header
+     *          and the row) for the first line of JSON Lines of objects
+     */
+    push(line: string): string[][] {
+        if (this.pending === undefined && line.length == 0)
+            return [];
+        if (!this.format)
+            this.format = sniff(line);
+        if (this.format === "tsv")
+            return [line.split("\t").map(unescapeTSV)];
+        if (this.format === "jsonl")
+            return this.json(line);
+        var text: string = this.pending === undefined ? line : this.pending + "\n" + line;
+        //an odd number of quotes means a quoted value is still open
+        if (text.split("\"").length % 2 == 0) {
+            this.pending = text;
+            return [];
+        }
+        this.pending = undefined;
+        return [splitCSV(text)];
+    }
+
+    /**
+     * Called after the last line: returns what is left of an unfinished
+     * csv record (whose closing quote is missing), if any.
+     */
+    end(): string[][] {
+        var text: string = this.pending;
+        this.pending = undefined;
+        return text === undefined ? [] : [splitCSV(text + "\"")];
+    }
+
+    /**
+     * Reads one line of JSON Lines. Throws an Error if it is not JSON.
+     */
+    json(line: string): string[][] {
+        var x: any;
+        try {
+            x = JSON.parse(line);
+        } catch (e) {
+            throw new Error("not JSON: " + line);
+        }
+        if (x instanceof Array)
+            return [x.map(jsonCell)];
+        var records: string[][] = [];
+        if (!this.keys) {
+            this.keys = [];
+            for (var key in x)
+                this.keys.push(key);
+            records.push(this.keys);
+        }
+        records.push(this.keys.map(key => jsonCell(x[key])));
+        return records;
+    }
+}
+
+/**
+ * The text of one JSON value, as a cell of a row.
+ */
+function jsonCell(x: any): string {
+    if (x === null || x === undefined)
+        return "?";
+    if (typeof x === "object")
+        return JSON.stringify(x);
+    return String(x);
+}
+
+/**
+ * Splits one csv record into its values, undoing the quoting of RFC 4180.
+ * Values that do not start with a quote are kept as they are.
+ */
+function splitCSV(text: string): string[] {
+    var cells: string[] = [];
+    var i: number = 0;
+    while (true) {
+        var cell: string = "";
+        if (text.charAt(i) === "\"") {
+            i++;
+            while (i < text.length) {
+                var j: number = text.indexOf("\"", i);
+                if (j < 0)
+                    j = text.length;
+                cell += text.slice(i, j);
+                i = j + 1;
+                if (text.charAt(i) !== "\"")
+                    break;
+                cell += "\"";
+                i++;
+            }
+            //anything between the closing quote and the comma is kept too
+            var end: number = text.indexOf(",", i);
+            if (end < 0)
+                end = text.length;
+            cell += text.slice(i, end);
+            i = end;
+        } else {
+            var end: number = text.indexOf(",", i);
+            if (end < 0)
+                end = text.length;
+            cell = text.slice(i, end);
+            i = end;
+        }
+        cells.push(cell);
+        if (i >= text.length)
+            return cells;
+        i++;
+    }
+}
+
+/**
+ * Undoes the escapes of one tsv value.
+ */
+function unescapeTSV(cell: string): string {
+    return cell.replace(/\\(.)/g, function (all: string, c: string): string {
+        return c === "t" ? "\t" : c === "n" ? "\n" : c === "r" ? "\r" : c;
+    });
+}
+
+/**
+ * One csv value, quoted if it has to be.
+ */
+export function csvCell(x: Cell): string {
+    var s: string = String(x);
+    return /[",\r\n]/.test(s) ? "\"" + s.replace(/"/g, "\"\"") + "\"" : s;
+}
+
+/**
+ * One tsv value, escaped.
+ */
+function tsvCell(x: Cell): string {
+    return String(x).replace(/[\\\t\n\r]/g, function (c: string): string {
+        return c === "\t" ? "\\t" : c === "\n" ? "\\n" : c === "\r" ? "\\r" : "\\\\";
+    });
+}
+
+/**
+ * One arff value or name, quoted if it has to be.
+ */
+function arffCell(x: Cell): string {
+    var s: string = String(x);
+    if (/^[\w.+-]+$/.test(s))
+        return s;
+    return "'" + s.replace(/[\\']/g, "\\$&").replace(/\n/g, "\\n").replace(/\r/g, "\\r").replace(/\t/g, "\\t") + "'";
+}
+
+/**
+ * Writes a table to STDOUT in the chosen format: the header when it is
+ * made, then each row, then whatever end() has to add. Output is sent in
+ * large chunks, so end() must be called once the last row is written.
+ */
+export class Writer {
+    format: string;
+    // the column names (trimmed), and which columns are numeric
+    names: string[];
+    numeric: boolean[];
+    // the name of the arff relation
+    relation: string;
+    // output not yet written
+    out: string;
+    // arff rows, held until end() (the nominal values must come first)
+    rows: Cell[][];
+
+    /**
+     * @param names the column names
+     * @param relation what the table is (used by arff)
+     * @param format the output format
+     */
+    constructor(names: string[], relation: string, format: string = outFormat || "csv") {
+        this.format = format;
+        this.names = names.map(name => name.trim());
+        this.numeric = this.names.map(name => /[<>$]/.test(name));
+        this.relation = relation;
+        this.out = "";
+        this.rows = [];
+        if (format === "csv")
+            this.line(this.names.map(csvCell).join(","));
+        else if (format === "tsv")
+            this.line(this.names.map(tsvCell).join("\t"));
+    }
+
+    /**
+     * Writes one row.
+     */
+    row(cells: Cell[]): void {
+        if (this.format === "csv")
+            this.line(cells.map(csvCell).join(","));
+        else if (this.format === "tsv")
+            this.line(cells.map(tsvCell).join("\t"));
+        else if (this.format === "jsonl")
+            this.line(JSON.stringify(this.object(cells)));
+        else
+            this.rows.push(cells.slice());
+    }
+
+    /**
+     * Writes anything held back, and flushes the output.
+     */
+    end(): void {
+        if (this.format === "arff")
+            this.arff();
+        process.stdout.write(this.out);
+        this.out = "";
+    }
+
+    /**
+     * Queues one line of output.
+     */
+    line(text: string): void {
+        this.out += text + "\n";
+        if (this.out.length > (1 << 16)) {
+            process.stdout.write(this.out);
+            this.out = "";
+        }
+    }
+
+    /**
+     * A row as a JSON object: numbers for the values of numeric columns
+     * (and for values that are numbers already), null for unknowns.
+     */
+    object(cells: Cell[]): any {
+        var x: any = {};
+        for (var i = 0; i < cells.length; i++) {
+            var cell: Cell = cells[i];
+            var key: string = i < this.names.length ? this.names[i] : String(i + 1);
+            if (cell === "?")
+                x[key] = null;
+            else if (typeof cell === "number" || (this.numeric[i] && isFinite(Number(cell)) && cell !== ""))
+                x[key] = Number(cell);
+            else
+                x[key] = cell;
+        }
+        return x;
+    }
+
+    /**
+     * Writes the held rows as arff. A column is numeric if its name says
+     * so or all its known values are numbers; otherwise it is nominal, and
+     * its values are listed in the order they first appear.
+     */
+    arff(): void {
+        this.line("@relation " + arffCell(this.relation));
+        this.line("");
+        for (var i = 0; i < this.names.length; i++) {
+            var values: string[] = [];
+            var seen: { [value: string]: boolean } = {};
+            var numeric: boolean = true;
+            for (var row of this.rows) {
+                if (row[i] === "?" || row[i] === undefined)
+                    continue;
+                numeric = numeric && typeof row[i] === "number";
+                if (!seen[String(row[i])])
+                    values.push(String(row[i]));
+                seen[String(row[i])] = true;
+            }
+            var type: string = this.numeric[i] || (numeric && values.length > 0) ? "numeric"
+                : values.length > 0 ? "{" + values.map(arffCell).join(",") + "}" : "string";
+            this.line("@attribute " + arffCell(this.names[i]) + " " + type);
+        }
+        this.line("");
+        this.line("@data");
+        for (var row of this.rows)
+            this.line(row.map(x => x === "?" ? "?" : arffCell(x)).join(","));
+    }
+}
+
+/**
+ * Prints an error about formats and halts execution of the program
+ */
+function formatErr(message: string): void {
+    process.stderr.write("Invalid format: " + message + "\n");
+    process.exit(-1);
+}
@@ -0,0 +1,136 @@
+import { Cell } from "./table";
+
+/**
+ * @file ids.ts
+ *
+ * Row IDs, so that rows can be joined back to the data they came from after
+ * the pipe has sorted them. The ID column is a "?" column (see table.ts), so
+ * no filter keeps statistics on it, and every filter carries it through
+ * unchanged. It is made by the first filter of the pipe, with
+ *
+ *    --id       a new first column "?id", numbering the rows 1, 2, 3... in
+ *               the order they were read (rows dropped by "--on-error=skip"
+ *               keep their numbers, so the IDs match the input's rows)
+ *    --id=name  the column "name", renamed "?id:name", so its values (say,
+ *               a run number from the generator) are the IDs
+ *
+ * Input that already has an ID column keeps it. Pipe3's "--restore-order"
+ * (and the "restoreOrder" option of pipeline.ts) puts the labelled rows back
+ * in order of their IDs, which for "--id" is the order they were read in.
+ */
+
+// The name of the ID column made by "--id".
+export var ID: string = "?id";
+
+// Where the IDs come from: undefined for none, "" to number the rows, or
+// the name of a column (set by "--id").
+export var idFrom: string;
+
+/**
+ * Takes "--id" and "--id=name" out of the command line args.
+ *
+ * @param args the command line args
+ * @returns the args that are not about IDs, for the filter to handle
+ */
+export function useIds(args: string[]): string[] {
+    var rest: string[] = [];
+    for (var arg of args) {
+        var m = /^--id(=(.+))?$/.exec(arg);
+        if (m)
+            idFrom = m[2] || "";
+        else
+            rest.push(arg);
+    }
+    return rest;
+}
+
+/**
+ * The position of the ID column in a header (-1 if there is none).
+ */
+export function idColumn(header: string[]): number {
+    for (var pos = 0; pos < header.length; pos++)
+        if (/^\?id(:|$)/.test(header[pos].trim()))
+            return pos;
+    return -1;
+}
+
+/**
+ * Adds IDs to the records of one input, in order.
+ */
+export class Ids {
+    // "" to number the rows, or the name of the ID column
+    from: string;
+    // true if each row gets a new first cell
+    numbered: boolean;
+    // the number of rows seen so far
+    n: number;
+
+    /**
+     * @param from "" to number the rows, or the name of a column
+     */
+    constructor(from: string) {
+        this.from = from;
+        this.numbered = false;
+        this.n = 0;
+    }
+
+    /**
+     * Adds the ID column to the header, unless it has one already.
+     * Throws an Error if the named column is not there.
+     * @returns the new header
+     */
+    header(cells: string[]): string[] {
+        if (idColumn(cells) >= 0)
+            return cells;
+        if (this.from === "") {
+            this.numbered = true;
+            return [ID].concat(cells);
+        }
+        for (var pos = 0; pos < cells.length; pos++)
+            if (cells[pos].trim() === this.from) {
+                cells = cells.slice();
+                cells[pos] = "?id:" + this.from;
+                return cells;
+            }
+        throw new Error("No such column: " + this.from);
+    }
+
+    /**
+     * Adds the ID to one row (if the rows are numbered). A row that was
+     * skipped (undefined) still uses up its number.
+     * @returns the new row
+     */
+    row(cells: Cell[]): Cell[] {
+        this.n++;
+        return this.numbered && cells ? (<Cell[]>[String(this.n)]).concat(cells) : cells;
+    }
+}
+
+/**
+ * Puts rows back in order of their IDs: numerically if the IDs are
+ * numbers, else as text, with unknown ("?") IDs last. Rows with the same ID
+ * keep their order. Throws an Error if the rows have no ID column.
+ * @param header the header, which names the ID column
+ * @param rows the rows
+ * @returns the rows in order (the array passed in is not changed)
+ */
+export function restoreOrder(header: string[], rows: Cell[][]): Cell[][] {
+    var pos: number = idColumn(header);
+    if (pos < 0)
+        throw new Error("No " + ID + " column to restore the order from (use --id)");
+    var numeric: boolean = true;
+    for (var row of rows)
+        numeric = numeric && (row[pos] === "?" || !isNaN(Number(row[pos])));
+    var key = (row: Cell[]) => numeric ? Number(row[pos]) : String(row[pos]);
+    var items = rows.map((row: Cell[], at: number) => ({ row: row, at: at }));
+    items.sort(function (a, b): number {
+        var x: Cell = a.row[pos];
+        var y: Cell = b.row[pos];
+        if (x === "?" || y === "?")
+            return x === y ? a.at - b.at : x === "?" ? 1 : -1;
+        var kx: Cell = key(a.row);
+        var ky: Cell = key(b.row);
+        return kx < ky ? -1 : kx > ky ? 1 : a.at - b.at;
+    });
+    return items.map(item => item.row);
+}
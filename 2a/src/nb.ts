@@ -0,0 +1,354 @@
+#!/usr/bin/env node
+
+import * as fs from "fs";
+import { Lean, configure } from "./config";
+import { Writer, useFormats } from "./formats";
+import { useIds } from "./ids";
+import { Num, num, numInc } from "./num";
+import { rand, rseed } from "./random";
+import { Sym, sym, symInc } from "./sym";
+import { Cell, Col, Table, readTable, reportMissing } from "./table";
+import { useValidation } from "./validate";
+
+/**
+ * @file nb.ts
+ *
+ * A Naive Bayes classifier that learns the "!klass" labels of Pipe3, so the
+ * band of a new configuration can be predicted without scoring it against
+ * the whole population again:
+ *
+ *     ... | node Pipe3.js | node nb.js train > model.json
+ *     cat new.csv | node nb.js predict model.json
+ *     ... | node Pipe3.js | node nb.js eval
+ *
+ * The classifier looks at the independent columns only (not the goals,
+ * which a new configuration does not have yet). Each label's likelihood is
+ * its prior times, for every known cell of a row,
+ *
+ *    - for a numeric column, the Gaussian density of the cell, from the mean
+ *      and standard deviation of the column for that label;
+ *    - for a symbolic column, the m-estimate (count + m * prior) / (n + m),
+ *      where "count" is how often the label had that symbol and "n" how many
+ *      rows have the label;
+ *
+ * where the prior of a label is (n + k) / (rows + k * labels), with k the
+ * Laplace correction. The label most likely for a row is its prediction,
+ * and its likelihood over the sum of those of all labels its probability.
+ * The settings are those of "nb" in config.lua (Lean.nb: m=2, k=1), and a
+ * model needs Lean.nb.enough (20) labelled rows to be trained.
+ *
+ * Subcommands:
+ * train         = learn from labelled rows, and print the model as JSON
+ * predict model = append the predicted label and its probability to each
+ *                 row (the label goes in a new "!klass" column if the rows
+ *                 have none, else in "?predicted")
+ * eval          = cross-validate on labelled rows: print the accuracy, the
+ *                 precision and recall of each label, and the confusion
+ *                 matrix (actual labels down, predicted across)
+ * and args:
+ * --folds=n = the number of folds of eval (default 5); the rows are dealt
+ *             into folds at random, from Lean.random.seed
+ * --json    = print the eval report as JSON
+ * --in      = the input format (see formats.ts)
+ * --out     = the output format of predict (see formats.ts)
+ */
+
+// What is learnt of one label.
+interface Label {
+    // the number of rows with the label
+    n: number;
+    // the summaries of the label's cells, by column name
+    nums: { [column: string]: Num };
+    syms: { [column: string]: Sym };
+}
+
+// What train writes, and predict reads.
+interface Model {
+    // the name of the class column
+    klass: string;
+    // the names of the numeric and symbolic columns looked at
+    nums: string[];
+    syms: string[];
+    // the number of labelled rows
+    n: number;
+    labels: { [label: string]: Label };
+}
+
+// A prediction for one row.
+interface Guess {
+    label: string;
+    probability: number;
+}
+
+// the subcommand, and the model file of predict
+var command: string;
+var modelFile: string;
+// the number of folds of eval
+var folds: number = 5;
+// print the eval report as JSON
+var json: boolean = false;
+
+for (var arg of useIds(useValidation(useFormats(configure(process.argv.slice(2)))))) {
+    var m = /^--folds=(\d+)$/.exec(arg);
+    if (m && Number(m[1]) >= 2)
+        folds = Number(m[1]);
+    else if (arg === "--json")
+        json = true;
+    else if (command === undefined && /^(train|predict|eval)$/.test(arg))
+        command = arg;
+    else if (command === "predict" && modelFile === undefined && arg.indexOf("--") != 0)
+        modelFile = arg;
+    else
+        argsErr();
+}
+if (command === undefined || (command === "predict") != (modelFile !== undefined))
+    argsErr();
+rseed(Lean.random.seed);
+
+readTable(function (t: Table) {
+    reportMissing(t);
+    if (command === "train")
+        console.log(JSON.stringify(train(t, t.rows), null, 2));
+    else if (command === "predict")
+        predict(t, load(modelFile));
+    else
+        report(evaluate(t));
+});
+
+/**
+ * Prints an error message and halts execution of the program
+ */
+function argsErr(): void {
+    process.stderr.write("Invalid command line args\n");
+    process.stderr.write("train | predict model.json | eval: learn a model, use one, or cross-validate\n");
+    process.stderr.write("--folds=n: the number of folds of eval (at least 2)\n");
+    process.stderr.write("--json: print the eval report as JSON\n");
+    process.stderr.write("--in csv|tsv|jsonl, --out csv|tsv|jsonl|arff: input format, and predict's output format\n");
+    process.stderr.write("--on-error=fail|skip|warn: what to do with bad input (see validate.ts)\n");
+    process.stderr.write("--id[=column]: add row IDs, or take them from a column (see ids.ts)\n");
+    process.stderr.write("--show-config: print the settings (see config.ts)\n");
+    process.exit(-1);
+}
+
+/**
+ * Prints "message" and halts execution of the program
+ */
+function fail(message: string): void {
+    process.stderr.write(message + "\n");
+    process.exit(-1);
+}
+
+/**
+ * Learns a model from some of the rows of a table. Rows with an unknown
+ * label are left out.
+ * @param t the table, labelled by Pipe3
+ * @param rows the rows to learn from
+ */
+function train(t: Table, rows: Cell[][]): Model {
+    var klass: Col = t.klass;
+    if (!klass)
+        fail("No ! column to learn from (run Pipe3 first)");
+    var model: Model = {
+        klass: klass.name,
+        nums: t.indeps.filter(col => !!col.num).map(col => col.name),
+        syms: t.indeps.filter(col => !!col.sym).map(col => col.name),
+        n: 0,
+        labels: {}
+    };
+    for (var row of rows) {
+        var k: string = String(row[klass.pos]);
+        if (k === "?")
+            continue;
+        var label: Label = model.labels[k];
+        if (!label)
+            label = model.labels[k] = { n: 0, nums: {}, syms: {} };
+        model.n++;
+        label.n++;
+        for (var col of t.indeps) {
+            if (row[col.pos] === "?")
+                continue;
+            if (col.num) {
+                label.nums[col.name] = label.nums[col.name] || num();
+                numInc(label.nums[col.name], row[col.pos]);
+            } else {
+                label.syms[col.name] = label.syms[col.name] || sym();
+                symInc(label.syms[col.name], String(row[col.pos]));
+            }
+        }
+    }
+    if (model.n < Lean.nb.enough)
+        fail("Need at least " + Lean.nb.enough + " labelled rows to train on, not " + model.n);
+    return model;
+}
+
+/**
+ * Reads a model written by train.
+ */
+function load(file: string): Model {
+    try {
+        var model: Model = JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (e) {
+        fail("Cannot read the model " + file + ": " + e.message);
+    }
+    if (!model || !model.labels || !model.nums || !model.syms)
+        fail("Not a model: " + file);
+    return model;
+}
+
+/**
+ * Predicts the label of one row.
+ * @param model the model
+ * @param t the table the row is from (for its column positions)
+ * @param row the row
+ */
+function classify(model: Model, t: Table, row: Cell[]): Guess {
+    var names: string[] = Object.keys(model.labels);
+    var logs: number[] = names.map(function (name: string): number {
+        var label: Label = model.labels[name];
+        var prior: number = (label.n + Lean.nb.k) / (model.n + Lean.nb.k * names.length);
+        var like: number = Math.log(prior);
+        for (var column of model.nums) {
+            var col: Col = t.col(column);
+            if (col && row[col.pos] !== "?" && label.nums[column])
+                like += Math.log(gaussian(label.nums[column], Number(row[col.pos])));
+        }
+        for (var column of model.syms) {
+            var col: Col = t.col(column);
+            if (col && row[col.pos] !== "?") {
+                var counts: Sym = label.syms[column] || sym();
+                var count: number = counts.counts[String(row[col.pos])] || 0;
+                like += Math.log((count + Lean.nb.m * prior) / (label.n + Lean.nb.m));
+            }
+        }
+        return like;
+    });
+    //the probabilities, scaled by the most likely label to keep exp() in range
+    var most: number = 0;
+    for (var i = 1; i < logs.length; i++)
+        if (logs[i] > logs[most])
+            most = i;
+    var total: number = 0;
+    for (var like of logs)
+        total += Math.exp(like - logs[most]);
+    return { label: names[most], probability: 1 / total };
+}
+
+/**
+ * The Gaussian density of "x" for a column's values. Columns whose values
+ * were all the same get a tiny standard deviation, so that other values
+ * are very unlikely rather than impossible.
+ */
+function gaussian(s: Num, x: number): number {
+    var sd: number = Math.max(s.sd, 10**-4);
+    return Math.exp(-(x - s.mean) * (x - s.mean) / (2 * sd * sd)) / (sd * Math.sqrt(2 * Math.PI)) + 10**-64;
+}
+
+/**
+ * Prints each row with its predicted label and the label's probability.
+ */
+function predict(t: Table, model: Model): void {
+    var klass: Col = t.klass;
+    var out: Writer = new Writer(t.header.concat(klass ? "?predicted" : model.klass, "?probability"), "nb");
+    for (var row of t.rows) {
+        var guess: Guess = classify(model, t, row);
+        out.row(row.concat(guess.label, Math.round(guess.probability * 1000) / 1000));
+    }
+    out.end();
+}
+
+// The result of eval.
+interface Evaluation {
+    folds: number;
+    n: number;
+    accuracy: number;
+    // for each label
+    labels: Array<{ label: string; n: number; precision: number; recall: number }>;
+    // confusion[actual][predicted] = the number of rows
+    confusion: { [actual: string]: { [predicted: string]: number } };
+}
+
+/**
+ * Cross-validates: the labelled rows are dealt at random into "folds"
+ * folds, and each fold is predicted by a model learnt from the others.
+ * @param t the table, labelled by Pipe3
+ */
+function evaluate(t: Table): Evaluation {
+    var klass: Col = t.klass;
+    if (!klass)
+        fail("No ! column to learn from (run Pipe3 first)");
+    var rows: Cell[][] = t.rows.filter(row => row[klass.pos] !== "?");
+    //a Fisher-Yates shuffle
+    rows = rows.slice();
+    for (var i = rows.length - 1; i > 0; i--) {
+        var j: number = Math.min(i, Math.floor(rand() * (i + 1)));
+        var tmp: Cell[] = rows[i];
+        rows[i] = rows[j];
+        rows[j] = tmp;
+    }
+    var labels: string[] = [];
+    var confusion: { [actual: string]: { [predicted: string]: number } } = {};
+    for (var row of rows)
+        if (!confusion[String(row[klass.pos])]) {
+            labels.push(String(row[klass.pos]));
+            confusion[String(row[klass.pos])] = {};
+        }
+    labels.sort();
+    for (var actual of labels)
+        for (var predicted of labels)
+            confusion[actual][predicted] = 0;
+    var right: number = 0;
+    for (var fold = 0; fold < folds; fold++) {
+        var model: Model = train(t, rows.filter((row, i) => i % folds != fold));
+        rows.forEach(function (row: Cell[], i: number) {
+            if (i % folds != fold)
+                return;
+            var actual: string = String(row[klass.pos]);
+            var guess: string = classify(model, t, row).label;
+            confusion[actual][guess]++;
+            if (guess === actual)
+                right++;
+        });
+    }
+    return {
+        folds: folds,
+        n: rows.length,
+        accuracy: right / (rows.length || 1),
+        labels: labels.map(function (label: string) {
+            var tp: number = confusion[label][label];
+            var actual: number = 0;
+            var predicted: number = 0;
+            for (var other of labels) {
+                actual += confusion[label][other];
+                predicted += confusion[other][label];
+            }
+            return {
+                label: label,
+                n: actual,
+                precision: predicted > 0 ? tp / predicted : 0,
+                recall: actual > 0 ? tp / actual : 0
+            };
+        }),
+        confusion: confusion
+    };
+}
+
+/**
+ * Prints the result of eval, as tab-separated text (rounded) or JSON.
+ */
+function report(e: Evaluation): void {
+    if (json) {
+        console.log(JSON.stringify(e, null, 2));
+        return;
+    }
+    var r = (x: number) => String(Math.round(x * 1000) / 1000);
+    console.log(["accuracy", r(e.accuracy), "n=" + e.n, "folds=" + e.folds].join("\t"));
+    console.log("");
+    console.log(["label", "n", "precision", "recall"].join("\t"));
+    for (var x of e.labels)
+        console.log([x.label, x.n, r(x.precision), r(x.recall)].join("\t"));
+    console.log("");
+    var labels: string[] = e.labels.map(x => x.label);
+    console.log(["actual\\predicted"].concat(labels).join("\t"));
+    for (var actual of labels)
+        console.log([actual].concat(labels.map(predicted => String(e.confusion[actual][predicted]))).join("\t"));
+}
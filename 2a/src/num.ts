@@ -0,0 +1,86 @@
+/**
+ * @file num.ts
+ *
+ * Incremental summaries of numeric columns, shared by all the filters.
+ * This is the TypeScript side of "num.lua": values are added (and removed)
+ * one at a time using Welford's online algorithm, so a filter can slide a
+ * split point along a sorted column without rescanning it.
+ *
+ * A "Num" has structure { count, mean, M2, sd, max, min }.
+ *
+ * As in "num.lua", the unknown value "?" is skipped: it is neither added to
+ * nor removed from the statistics.
+ */
+
+export interface Num {
+    count: number;
+    mean: number;
+    M2: number;
+    sd: number;
+    max: number;
+    min: number;
+}
+
+/**
+ * Returns an empty numeric summary.
+ */
+export function num(): Num {
+    return { count: 0, mean: 0, M2: 0, sd: 0, max: -1 * 10**32, min: 10**32 };
+}
+
+/**
+ * Given an "aggregate" of statistics (mean, stddev, size, etc.) about an
+ * attribute (probably "dom"), numInc() is used to update these statistics
+ * for a single additional value; i.e. A moving/rolling calculation of stats.
+ *
+ * @param aggr:  A collection of statistics on the existing sample set.
+ * @param value: A new value added to the set (or "?").
+ */
+export function numInc( aggr: Num, value: number | string ) {
+    if ( !known( value ) ) return;
+    aggr.count++;
+    var delta  = value - aggr.mean;
+    aggr.mean += delta / aggr.count;
+    aggr.M2 += delta * ( value - aggr.mean );
+    if ( value > aggr.max ) aggr.max = value;
+    if ( value < aggr.min ) aggr.min = value;
+    if ( aggr.count >= 2 ) aggr.sd = Math.sqrt( aggr.M2 / ( aggr.count - 1 + 10**-32) );
+}
+
+/**
+ * The inverse of numInc(): removes a single value from the statistics.
+ * Note that "max" and "min" are not rolled back.
+ *
+ * @param aggr:  A collection of statistics on the existing sample set.
+ * @param value: A value previously added to the set (or "?").
+ */
+export function numDec( aggr: Num, value: number | string ) {
+    if ( !known( value ) ) return;
+    if ( aggr.count == 1 ) return;
+    aggr.count--;
+    var delta  = value - aggr.mean;
+    aggr.mean -= delta / aggr.count;
+    aggr.M2 -= delta * ( value - aggr.mean );
+    // rounding can take M2 just below zero when the values left are all equal
+    aggr.M2 = Math.max( 0, aggr.M2 );
+    if ( aggr.count >= 2 ) {
+        aggr.sd = Math.sqrt( aggr.M2 / ( aggr.count - 1 + 10**-32) );
+    }
+}
+
+/**
+ * Maps "value" onto 0..1 using the smallest and largest values seen so far.
+ * Unknown values map to the middle of the range.
+ */
+export function numNorm( aggr: Num, value: number | string ): number {
+    if ( !known( value ) ) return 0.5;
+    return ( value - aggr.min ) / ( aggr.max - aggr.min + 10**-32 );
+}
+
+/**
+ * True unless "value" is the unknown value "?" (or a cell that could not be
+ * read as a number).
+ */
+export function known( value: number | string ): value is number {
+    return typeof value === "number" && !isNaN( value );
+}
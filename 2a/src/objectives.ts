@@ -0,0 +1,238 @@
+import { Cell } from "./table";
+
+/**
+ * @file objectives.ts
+ *
+ * The split objectives of argmin.ts. An objective measures the "spread" of
+ * the goal values in a run of rows (lower is purer); argmin cuts where the
+ * expected spread of the two sides, weighted by their sizes, is least. The
+ * objectives are kept in a registry that argmin looks them up in by name,
+ * so a new objective joins by calling register(); see the end of this file
+ * for the built-in ones:
+ *
+ *    sd        standard deviation (the default for numeric goals)
+ *    mad       median absolute deviation, which outliers barely move
+ *    variance  variance, so that a cut maximizes the variance reduction
+ *    entropy   entropy of the classes (the default for symbolic goals)
+ *    gini      Gini impurity of the classes
+ *
+ * Each objective precomputes what it needs from the goal column once, so
+ * that argmin can score every candidate cut cheaply: O(1) for sd and
+ * variance, O(log n) for mad (on a sorted goal), O(classes) for entropy
+ * and gini (as argmin moves its cuts).
+ */
+
+export interface Objective {
+    // name used with --objective=name, and recorded in argmin's header
+    name: string;
+    // what the objective is, for the usage message
+    about: string;
+    // true if it scores a numeric goal, false for a symbolic one
+    numeric: boolean;
+    /**
+     * Prepares to score runs of the goal values.
+     * @param values the known goal values, in row order
+     * @returns a function giving the spread of values lo..hi-1
+     */
+    prepare(values: Cell[]): (lo: number, hi: number) => number;
+}
+
+var registry: Objective[] = [];
+
+/**
+ * Adds an objective to the registry.
+ */
+export function register(o: Objective): void {
+    registry.push(o);
+}
+
+/**
+ * Returns all registered objectives, in the order they were registered.
+ */
+export function objectives(): Objective[] {
+    return registry.slice();
+}
+
+/**
+ * Finds a registered objective by its name.
+ * @returns the objective, or undefined if there is none
+ */
+export function objective(name: string): Objective {
+    for (var o of registry)
+        if (o.name === name)
+            return o;
+    return undefined;
+}
+
+/**
+ * Variance from prefix sums: sums[i] and squares[i] hold the sum of the
+ * values before index i, and of their squares. The values are shifted by
+ * their mean first, which keeps the sums small and accurate.
+ */
+function variance(values: Cell[]): (lo: number, hi: number) => number {
+    var n: number = values.length;
+    var shift: number = 0;
+    for (var x of values)
+        shift += <number>x / n;
+    var sums: number[] = [0];
+    var squares: number[] = [0];
+    for (var i = 0; i < n; i++) {
+        var y: number = <number>values[i] - shift;
+        sums[i + 1] = sums[i] + y;
+        squares[i + 1] = squares[i] + y * y;
+    }
+    return function (lo: number, hi: number): number {
+        var count: number = hi - lo;
+        if (count < 2)
+            return 0;
+        var sum: number = sums[hi] - sums[lo];
+        var square: number = squares[hi] - squares[lo];
+        //rounding can leave a tiny negative variance when all values are equal
+        return Math.max(0, (square - sum * sum / count) / (count - 1));
+    };
+}
+
+/**
+ * Median absolute deviation. If the values are sorted (either way, as the
+ * pipe sorts them on the goal), the median of a run is its middle value,
+ * and the absolute deviations from it form two sorted lists (going down
+ * from the middle, and up from it), so their median is found by binary
+ * search. Unsorted values fall back to sorting each run.
+ */
+function mad(values: Cell[]): (lo: number, hi: number) => number {
+    var xs: number[] = values.map(x => <number>x);
+    var up: boolean = true;
+    var down: boolean = true;
+    for (var i = 1; i < xs.length; i++) {
+        up = up && xs[i - 1] <= xs[i];
+        down = down && xs[i - 1] >= xs[i];
+    }
+    //negating all the values changes no absolute deviation
+    if (down && !up)
+        xs = xs.map(x => -x);
+    if (!up && !down)
+        return function (lo: number, hi: number): number {
+            var run: number[] = xs.slice(lo, hi).sort((a, b) => a - b);
+            var mid: number = median(run, 0, run.length);
+            return median(run.map(x => Math.abs(x - mid)).sort((a, b) => a - b), 0, run.length);
+        };
+    return function (lo: number, hi: number): number {
+        var n: number = hi - lo;
+        if (n < 2)
+            return 0;
+        var mid: number = median(xs, lo, hi);
+        //below[k] = mid - xs[p - k], above[k] = xs[p + 1 + k] - mid
+        var p: number = lo + Math.floor((n - 1) / 2);
+        var nb: number = p - lo + 1;
+        var na: number = hi - p - 1;
+        var below = (k: number) => mid - xs[p - k];
+        var above = (k: number) => xs[p + 1 + k] - mid;
+        //the k-th smallest (from 0) deviation
+        function kth(k: number): number {
+            var i0: number = Math.max(0, k + 1 - na);
+            var i1: number = Math.min(k + 1, nb);
+            //take i deviations from below and k+1-i from above
+            while (true) {
+                var i: number = (i0 + i1) >> 1;
+                var j: number = k + 1 - i;
+                if (i < i1 && j > 0 && above(j - 1) > below(i))
+                    i0 = i + 1;
+                else if (i > i0 && j < na && below(i - 1) > above(j))
+                    i1 = i - 1;
+                else
+                    return Math.max(i > 0 ? below(i - 1) : -Infinity,
+                        j > 0 ? above(j - 1) : -Infinity);
+            }
+        }
+        return (kth(Math.floor((n - 1) / 2)) + kth(Math.floor(n / 2))) / 2;
+    };
+}
+
+/**
+ * The median of the sorted values xs[lo..hi-1].
+ */
+function median(xs: number[], lo: number, hi: number): number {
+    var n: number = hi - lo;
+    return (xs[lo + Math.floor((n - 1) / 2)] + xs[lo + Math.floor(n / 2)]) / 2;
+}
+
+// The values lo..hi-1, and how many of them are each class.
+interface Run {
+    lo: number;
+    hi: number;
+    counts: number[];
+}
+
+/**
+ * Running counts of each class in a run of the values, moved a value at a
+ * time to the run asked for. argmin asks for the runs either side of a cut
+ * that moves up a row at a time, so two runs are kept, and the one nearer
+ * the run asked for is moved: each cut costs O(classes), in O(n + classes)
+ * memory. The spread of a run is then "impurity" of the fractions of each
+ * class in it (in the order the classes first appear).
+ */
+function classes(impurity: (ps: number[]) => number) {
+    return function (values: Cell[]): (lo: number, hi: number) => number {
+        var index: { [klass: string]: number } = {};
+        var ks: number[] = [];
+        var n: number = 0;
+        for (var x of values) {
+            var klass: string = String(x);
+            if (!(klass in index))
+                index[klass] = n++;
+            ks.push(index[klass]);
+        }
+        var runs: Run[] = [];
+        for (var r = 0; r < 2; r++) {
+            runs.push({ lo: 0, hi: 0, counts: [] });
+            for (var k = 0; k < n; k++)
+                runs[r].counts.push(0);
+        }
+        return function (lo: number, hi: number): number {
+            var away = (r: Run) => Math.abs(r.lo - lo) + Math.abs(r.hi - hi);
+            var run: Run = away(runs[0]) <= away(runs[1]) ? runs[0] : runs[1];
+            //grow the run first, so it never counts less than nothing
+            while (run.hi < hi)
+                run.counts[ks[run.hi++]]++;
+            while (run.lo > lo)
+                run.counts[ks[--run.lo]]++;
+            while (run.hi > hi)
+                run.counts[ks[--run.hi]]--;
+            while (run.lo < lo)
+                run.counts[ks[run.lo++]]--;
+            var ps: number[] = [];
+            for (var count of run.counts)
+                if (count > 0)
+                    ps.push(count / (hi - lo));
+            return impurity(ps);
+        };
+    };
+}
+
+register({
+    name: "sd", about: "weighted standard deviation (default)", numeric: true,
+    prepare: function (values: Cell[]) {
+        var v = variance(values);
+        return (lo: number, hi: number) => Math.sqrt(v(lo, hi));
+    }
+});
+register({ name: "mad", about: "weighted median absolute deviation", numeric: true, prepare: mad });
+register({ name: "variance", about: "variance reduction", numeric: true, prepare: variance });
+register({
+    name: "entropy", about: "entropy of a symbolic goal (its default)", numeric: false,
+    prepare: classes(function (ps: number[]): number {
+        var e: number = 0;
+        for (var p of ps)
+            e -= p * Math.log(p) / Math.LN2;
+        return e;
+    })
+});
+register({
+    name: "gini", about: "Gini impurity of a symbolic goal", numeric: false,
+    prepare: classes(function (ps: number[]): number {
+        var g: number = 1;
+        for (var p of ps)
+            g -= p * p;
+        return g;
+    })
+});
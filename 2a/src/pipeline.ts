@@ -0,0 +1,104 @@
+import { LabelOptions, Labels, labelBestRest } from "./bands";
+import { CutOptions, findCuts } from "./cuts";
+import { Ids, restoreOrder } from "./ids";
+import { SortOptions, sortByGoal } from "./sortrows";
+import { Cell, Rows, Table, bareName, goalOf, tableOf } from "./table";
+
+export { LabelOptions, Labels, labelBestRest } from "./bands";
+export { CutOptions, findCuts } from "./cuts";
+export { restoreOrder } from "./ids";
+export { SortOptions, sortByGoal } from "./sortrows";
+export { Cell, Rows, Table, tableOf } from "./table";
+
+/**
+ * @file pipeline.ts
+ *
+ * The pipe as a library, for programs that want best/rest labels without
+ * running the filters:
+ *
+ *     cat run.in | node sortlastcol.js | node argmin.js | node Pipe3.js
+ *
+ * is, in process,
+ *
+ *     import { runPipeline } from "./pipeline";
+ *     var labels = runPipeline(records);
+ *
+ * where "records" are the header and then the rows (as the lines of a csv
+ * file, with numbers as text or as numbers). Each stage can also be run on
+ * its own, on a Table (see table.ts) or any header and rows: sortByGoal()
+ * (sortrows.ts), findCuts() (cuts.ts) and labelBestRest() (bands.ts). The
+ * stages pass their rows on as they are, so nothing is printed and parsed
+ * again between them; the labels are the same as those the filters print.
+ *
+ * The stages read the settings in Lean (see config.ts), and throw an Error
+ * where the filters would print one and exit. Every row is expected to have
+ * a cell for each header cell (the filters check this; see validate.ts).
+ * Row IDs (see ids.ts) can be added, and the labelled rows put back in
+ * the order of their IDs, with the "ids" and "restoreOrder" options.
+ *
+ * The "goal" option cuts and labels on another "<" or ">" column than the
+ * goal of the pipe, and labelGoals() labels the rows once for each of
+ * several goals (as Pipe3's "--goal" and "--goals").
+ */
+
+// The options of all three stages, and of the row IDs (see ids.ts).
+export interface PipelineOptions extends SortOptions, CutOptions, LabelOptions {
+    // true to number the rows in a new "?id" column, or the name of the
+    // column whose values are their IDs (as with "--id")
+    ids?: boolean | string;
+    // true to return the rows in order of their IDs (as "--restore-order")
+    restoreOrder?: boolean;
+}
+
+/**
+ * Sorts the rows on their goal, cuts them into best and rest, and labels
+ * them with their bands.
+ * @param rows the header, then the rows
+ * @returns the labelled rows, with a "!klass" column in place of the cut,
+ *          and the cut tree. Every row is returned, as Pipe3 prints them.
+ */
+export function runPipeline(rows: Cell[][], options: PipelineOptions = {}): Labels {
+    var data: Rows = { header: rows[0].map(String), rows: rows.slice(1) };
+    if (options.ids || options.ids === "") {
+        var ids: Ids = new Ids(options.ids === true ? "" : <string>options.ids);
+        data.header = ids.header(data.header);
+        data.rows = data.rows.map(row => ids.row(row));
+    }
+    var labels: Labels = labelBestRest(findCuts(sortByGoal(data, options), options), options);
+    if (options.restoreOrder)
+        labels.rows = restoreOrder(labels.header, labels.rows);
+    return labels;
+}
+
+/**
+ * Cuts and labels the rows once for each goal, so that labellings on
+ * single goals can be compared with each other (and with that on ">dom").
+ * The rows need not be sorted, as each pass sorts them on its goal.
+ * Throws an Error for an unknown goal or objective.
+ * @param data the header and rows (a Table will do), with no cut column
+ * @param goals the names of the goals (see goalOf() in table.ts)
+ * @param options how to cut the rows (the "goal" option is ignored), and
+ *        where to log the cut trees
+ * @returns the rows, in the order given, each with a "!klass_<goal>" column
+ *          per goal (named without the goal's "<" or ">", which would make
+ *          it a numeric column)
+ */
+export function labelGoals(data: Rows, goals: string[], options: CutOptions & LabelOptions = {}): Rows {
+    var t: Table = tableOf(data);
+    //each row is numbered in a new first column, so its labels can be found
+    //after each pass has sorted the rows
+    var numbered: Rows = {
+        header: ["?at"].concat(t.header),
+        rows: t.rows.map((row: Cell[], at: number) => (<Cell[]>[at]).concat(row))
+    };
+    var labels: Cell[][] = t.rows.map(() => []);
+    for (var goal of goals) {
+        var cut: Rows = findCuts(numbered, { objective: options.objective, both: options.both, goal: goal });
+        for (var row of labelBestRest(cut, { log: options.log, goal: goal }).rows)
+            labels[<number>row[0]].push(row[row.length - 1]);
+    }
+    return {
+        header: t.header.concat(goals.map(goal => "!klass_" + bareName(goalOf(t, goal)))),
+        rows: t.rows.map((row: Cell[], at: number) => row.concat(labels[at]))
+    };
+}
@@ -0,0 +1,44 @@
+/**
+ * @file random.ts
+ *
+ * A seedable random number generator, so that runs can be reproduced. This
+ * is the Park-Miller generator from "lib.lua", and it produces the same
+ * sequence as the Lua code for the same seed.
+ */
+
+var SEED0: number = 10013;
+var MODULUS: number = 2147483647;
+var MULTIPLIER: number = 16807;
+
+var seed: number = SEED0;
+
+/**
+ * Restarts the generator.
+ * @param n the new seed (defaults to the seed the generator starts with)
+ */
+export function rseed(n: number = SEED0) {
+    seed = n;
+}
+
+/**
+ * Returns the next random number in 0..1.
+ */
+export function rand(): number {
+    seed = (MULTIPLIER * seed) % MODULUS;
+    return seed / MODULUS;
+}
+
+/**
+ * Returns a random index into an array of "n" items other than "x".
+ * This picks items the same way as "another" in lib.lua (which works on
+ * 1-based indexes).
+ * @param x the index to avoid
+ * @param n the number of items (at least 2)
+ */
+export function another(x: number, n: number): number {
+    while (true) {
+        var y: number = Math.min(n, Math.max(1, Math.floor(0.5 + rand() * n))) - 1;
+        if (y != x)
+            return y;
+    }
+}
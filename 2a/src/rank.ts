@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+
+import { configure } from "./config";
+import { Writer, outFormat, useFormats } from "./formats";
+import { useIds } from "./ids";
+import { Cell, Col, Table, bestKlass, readTable, reportMissing } from "./table";
+import { useValidation } from "./validate";
+
+/**
+ * @file rank.ts
+ *
+ * This filter is the TypeScript port of "rank.lua", the last stage of the
+ * pipe:
+ *
+ *     ... | node Pipe3.js | node super.js | node rank.js
+ *
+ * It groups the rows by their "!klass" label and takes the "best" group to
+ * be the one with the highest mean ">dom" score; all other rows are the
+ * "rest". Then, for every independent column and every value in it, b and
+ * r are the fractions of best and rest rows that have that value. Values
+ * more common in best than in rest are scored by b^2/(b+r), and printed
+ * in order of score (highest first) as tab-separated lines of
+ *
+ *     rank, score, column, value, best %, rest %
+ *
+ * Command line args:
+ * --top=n = only report the n highest-scoring values (or "--top n")
+ * --json  = print the report as a JSON array instead
+ * --in    = the input format (see formats.ts)
+ * --out   = print the report as a table in that format instead (with a
+ *           header, and scores and fractions as they are)
+ */
+
+// Stands in for a count of zero, as in rank.lua.
+var TINY: number = 0.001;
+
+interface Range {
+    rank: number;
+    score: number;
+    column: string;
+    value: string;
+    best: number;
+    rest: number;
+}
+
+// how many values to report (all of them by default)
+var top: number = Infinity;
+// print JSON instead of text
+var json: boolean = false;
+
+//"--top n" or "--top=n"
+var args: string[] = useIds(useValidation(useFormats(configure(process.argv.slice(2)))));
+for (var i = 0; i < args.length; i++) {
+    var m = /^--top(=(.+))?$/.exec(args[i]);
+    if (m && !m[1] && /^\d+$/.test(args[i + 1]))
+        m[2] = args[++i];
+    if (m && /^\d+$/.test(m[2]))
+        top = Number(m[2]);
+    else if (m)
+        argsErr();
+    else if (args[i] === "--json")
+        json = true;
+    else
+        argsErr();
+}
+
+readTable(function (t: Table) {
+    reportMissing(t);
+    report(rank(t).slice(0, top));
+});
+
+/**
+ * Prints an error message and halts execution of the program
+ */
+function argsErr(): void {
+    process.stderr.write("Invalid command line args\n");
+    process.stderr.write("--top=n, --top n: only report the n best values\n");
+    process.stderr.write("--json: print the report as JSON\n");
+    process.stderr.write("--in csv|tsv|jsonl, --out csv|tsv|jsonl|arff: input format, and report format\n");
+    process.stderr.write("--on-error=fail|skip|warn: what to do with bad input (see validate.ts)\n");
+    process.stderr.write("--id[=column]: add row IDs, or take them from a column (see ids.ts)\n");
+    process.stderr.write("--show-config: print the settings (see config.ts)\n");
+    process.exit(-1);
+}
+
+/**
+ * Scores every value of every independent column by how much more often
+ * it appears in the best rows than in the rest.
+ * @param t the table, labelled by Pipe3
+ * @returns the values more common in best, highest score first
+ */
+function rank(t: Table): Range[] {
+    var klass: Col = t.klass || t.cols[t.cols.length - 1];
+    var best: string = bestKlass(t, klass);
+    var nb: number = 0;
+    var nr: number = 0;
+    var b: { [key: string]: number } = {};
+    var r: { [key: string]: number } = {};
+    for (var row of t.rows) {
+        var k: string = String(row[klass.pos]);
+        if (k === "?")
+            continue;
+        if (k === best)
+            nb++;
+        else
+            nr++;
+        var counts = k === best ? b : r;
+        for (var col of t.indeps) {
+            var x: Cell = row[col.pos];
+            if (x === "?")
+                continue;
+            var key: string = col.pos + "," + x;
+            counts[key] = (counts[key] || 0) + 1;
+        }
+    }
+
+    var order: Range[] = [];
+    for (var key in b) {
+        var split: number = key.indexOf(",");
+        var pb: number = (b[key] || TINY) / (nb + 0.00001);
+        var pr: number = (r[key] || TINY) / (nr + 0.00001);
+        if (pb > pr)
+            order.push({
+                rank: 0,
+                score: pb * pb / (pb + pr),
+                column: t.header[Number(key.slice(0, split))].trim(),
+                value: key.slice(split + 1),
+                best: pb,
+                rest: pr
+            });
+    }
+    order.sort((x: Range, y: Range) => y.score - x.score);
+    for (var i = 0; i < order.length; i++)
+        order[i].rank = i + 1;
+    return order;
+}
+
+/**
+ * Prints the ranked values, as text (with scores and fractions as whole
+ * percents) or as JSON.
+ */
+function report(order: Range[]): void {
+    if (json) {
+        console.log(JSON.stringify(order, null, 2));
+        return;
+    }
+    if (outFormat) {
+        var out: Writer = new Writer(["rank", "score", "column", "value", "best", "rest"], "rank");
+        for (var x of order)
+            out.row([x.rank, x.score, x.column, x.value, x.best, x.rest]);
+        out.end();
+        return;
+    }
+    var pc = (x: number) => Math.floor(0.5 + 100 * x);
+    for (var x of order)
+        console.log([x.rank, pc(x.score), x.column, x.value, pc(x.best), pc(x.rest)].join("\t"));
+}
@@ -0,0 +1,335 @@
+#!/usr/bin/env node
+
+import * as http from "http";
+import * as net from "net";
+import { URL } from "url";
+import { Lean, configure } from "./config";
+import { CutNode } from "./cuttree";
+import { INPUTS, Parser } from "./formats";
+import { Num, num, numInc } from "./num";
+import { Labels, PipelineOptions, runPipeline } from "./pipeline";
+import { Cell, Table, goalOf } from "./table";
+
+/**
+ * @file serve.ts
+ *
+ * The pipe as a local web service, for those who would rather post a table
+ * than run the filters:
+ *
+ *     node serve.js --port=8417
+ *     curl --data-binary @run.in 'http://127.0.0.1:8417/label?goal=<ep'
+ *
+ * POST /label reads a table (the header first), sorts, cuts and labels it
+ * as sortlastcol, argmin and Pipe3 would (see runPipeline() in
+ * pipeline.ts), and answers with JSON:
+ *
+ *     { "header": [...], "rows": [[...], ...], "bands": [...], "tree": {...} }
+ *
+ * where "rows" are every labelled row (with the "!klass" column last),
+ * "bands" has the number of rows of each band and the min, max, mean and
+ * standard deviation of their goal, and "tree" is the cut tree (as Pipe3's
+ * "--report"; see cuttree.ts). GET /health answers { "status": "ok" }.
+ *
+ * The body is csv, tsv or JSON Lines (see formats.ts), as given by "?in=",
+ * else by its Content-Type (text/csv, text/tab-separated-values or
+ * application/x-ndjson), else sniffed from its first line; or, with a
+ * Content-Type of application/json, an array of rows (arrays, the header
+ * first, or objects keyed by column name, with null for unknowns). Every
+ * row must have a cell for each header cell, and numeric columns must hold
+ * numbers (or "?").
+ *
+ * The query string holds the options of each request, each given at most
+ * once:
+ *    goal=name       cut and label on this "<" or ">" column (see argmin's
+ *                    "--goal")
+ *    sort=name       the sorting algorithm (see sorts.ts; merge by default)
+ *    objective=name  the objective of the cuts (see objectives.ts)
+ *    both=1          partition both sides of each cut (argmin's "--both")
+ *    cohen=x         the "label.cohen" setting, for this request only
+ *    enough=x        the "label.enough" setting, for this request only
+ *
+ * Bad requests get a 400 (and JSON with an "error"), bodies over the size
+ * limit a 413, requests not answered in time a 408, and anything else that
+ * goes wrong (a bug, rather than a bad request) a 500. Tables are labelled
+ * one at a time, and a table that is being labelled is not interrupted, so
+ * the timeout mostly guards against clients that stop sending. src/run
+ * checks the service on a free port of this machine. Command line args (as
+ * well as the settings; see config.ts):
+ * --port=n       the port to listen on (default 8417; 0 for any free port)
+ * --host=name    the address to listen on (default 127.0.0.1, so only this
+ *                machine can connect)
+ * --max-bytes=n  the largest body accepted (default 10000000)
+ * --timeout=ms   how long a request may take (default 30000)
+ */
+
+// the "label" settings (see config.ts) a request can change
+var SETTINGS: string[] = ["cohen", "enough"];
+
+// The options of a request, by name, from its query string.
+interface Query {
+    [name: string]: string;
+}
+
+// The rows of one band, and the summary of their goal (if any is known).
+interface Band {
+    band: string;
+    n: number;
+    min?: number;
+    max?: number;
+    mean?: number;
+    sd?: number;
+}
+
+// What POST /label answers.
+interface Answer {
+    header: string[];
+    rows: Cell[][];
+    bands: Band[];
+    tree: CutNode;
+}
+
+// where to listen, and the limits on each request
+var port: number = 8417;
+var host: string = "127.0.0.1";
+var maxBytes: number = 10000000;
+var timeout: number = 30000;
+
+for (var arg of configure(process.argv.slice(2))) {
+    var m = /^--(port|host|max-bytes|timeout)=(.+)$/.exec(arg);
+    if (m && m[1] === "host")
+        host = m[2];
+    else if (m && /^\d+$/.test(m[2]) && m[1] === "port")
+        port = Number(m[2]);
+    else if (m && /^\d+$/.test(m[2]) && m[1] === "max-bytes")
+        maxBytes = Number(m[2]);
+    else if (m && /^\d+$/.test(m[2]) && m[1] === "timeout")
+        timeout = Number(m[2]);
+    else
+        argsErr();
+}
+
+var server: http.Server = http.createServer(handle);
+server.listen(port, host, function () {
+    var address: net.AddressInfo = <net.AddressInfo>server.address();
+    process.stderr.write("-- listening on http://" + host + ":" + address.port + "/\n");
+});
+
+/**
+ * Prints an error message and halts execution of the program
+ */
+function argsErr(): void {
+    process.stderr.write("Invalid command line args\n");
+    process.stderr.write("--port=n: the port to listen on (default 8417)\n");
+    process.stderr.write("--host=name: the address to listen on (default 127.0.0.1)\n");
+    process.stderr.write("--max-bytes=n: the largest request body (default 10000000)\n");
+    process.stderr.write("--timeout=ms: how long a request may take (default 30000)\n");
+    process.stderr.write("--show-config: print the settings (see config.ts)\n");
+    process.exit(-1);
+}
+
+/**
+ * Answers one request.
+ */
+function handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    var where: URL = new URL(req.url, "http://localhost");
+    var timer = setTimeout(function () {
+        reply(res, 408, { error: "Request took over " + timeout + " ms" });
+        req.destroy();
+    }, timeout);
+    res.on("finish", () => clearTimeout(timer));
+    if (where.pathname === "/health") {
+        reply(res, 200, { status: "ok" });
+        return;
+    }
+    if (where.pathname !== "/label") {
+        reply(res, 404, { error: "No such route: " + where.pathname + " (use POST /label or GET /health)" });
+        return;
+    }
+    if (req.method !== "POST") {
+        reply(res, 405, { error: "Use POST /label" });
+        return;
+    }
+    var chunks: Buffer[] = [];
+    var size: number = 0;
+    req.on("data", function (chunk: Buffer) {
+        size += chunk.length;
+        if (size > maxBytes) {
+            reply(res, 413, { error: "Body over " + maxBytes + " bytes" });
+            req.destroy();
+        } else {
+            chunks.push(chunk);
+        }
+    });
+    req.on("end", function () {
+        if (size > maxBytes)
+            return;
+        try {
+            var options: Query = query(where);
+            var body: string = Buffer.concat(chunks).toString("utf8");
+            var rows: Cell[][] = records(body, String(req.headers["content-type"] || ""), options["in"]);
+            reply(res, 200, label(rows, options));
+        } catch (e) {
+            //a TypeError is the pipe failing, rather than the request
+            reply(res, e instanceof TypeError ? 500 : 400, { error: e.message });
+        }
+    });
+}
+
+/**
+ * Writes a JSON answer, unless one was written already (as when a body
+ * too big is still arriving).
+ */
+function reply(res: http.ServerResponse, status: number, x: object): void {
+    if (res.headersSent)
+        return;
+    var text: string = JSON.stringify(x) + "\n";
+    res.writeHead(status, { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(text) });
+    res.end(text);
+}
+
+/**
+ * The options of a request, from its query string. Throws an Error for an
+ * option given more than once.
+ */
+function query(where: URL): Query {
+    var result: Query = {};
+    where.searchParams.forEach(function (value: string, name: string) {
+        if (result.hasOwnProperty(name))
+            throw new Error("Repeated option: " + name + " (give each option once)");
+        result[name] = value;
+    });
+    return result;
+}
+
+/**
+ * The records of a body: the header, then the rows. Throws an Error for a
+ * body that cannot be read, or rows that do not fit the header.
+ * @param type the Content-Type of the body
+ * @param format the format asked for with "?in=", if any
+ */
+function records(body: string, type: string, format: string): Cell[][] {
+    var result: Cell[][];
+    if (format === undefined && /^application\/json\b/.test(type)) {
+        result = fromJSON(body);
+    } else {
+        if (format === undefined)
+            format = /^text\/csv\b/.test(type) ? "csv"
+                : /^text\/tab-separated-values\b/.test(type) ? "tsv"
+                : /^application\/(x-)?ndjson\b/.test(type) ? "jsonl" : undefined;
+        else if (INPUTS.indexOf(format) < 0)
+            throw new Error("Invalid in: " + format + " (use " + INPUTS.join("|") + ")");
+        var parser: Parser = new Parser(format);
+        result = [];
+        body.split("\n").forEach(function (line: string, n: number) {
+            try {
+                for (var cells of parser.push(line.replace(/\r$/, "")))
+                    result.push(cells);
+            } catch (e) {
+                throw new Error("line " + (n + 1) + ": " + e.message);
+            }
+        });
+        for (var cells of parser.end())
+            result.push(cells);
+    }
+    if (result.length == 0)
+        throw new Error("No header");
+    check(result);
+    return result;
+}
+
+/**
+ * The records of a JSON body: an array of arrays (the header first), or of
+ * objects keyed by column name.
+ */
+function fromJSON(body: string): Cell[][] {
+    var x: any = JSON.parse(body);
+    if (!(x instanceof Array))
+        throw new Error("Expected an array of rows");
+    if (x.length == 0 || x[0] instanceof Array)
+        return x.map((row: any) => row instanceof Array ? row.map(cell) : []);
+    var header: string[] = Object.keys(x[0]);
+    return (<Cell[][]>[header]).concat(x.map((row: any) => header.map(key => cell(row[key]))));
+}
+
+/**
+ * One JSON value as a cell: null for unknown ("?").
+ */
+function cell(x: any): Cell {
+    return x === null || x === undefined ? "?" : typeof x === "number" ? x : String(x);
+}
+
+/**
+ * Checks that every row has a cell for each header cell, and that numeric
+ * columns hold numbers. Throws an Error for the first row that does not.
+ */
+function check(result: Cell[][]): void {
+    var header: string[] = result[0].map(String);
+    var nums: number[] = new Table(header).nums.map(col => col.pos);
+    for (var i = 1; i < result.length; i++) {
+        if (result[i].length != header.length)
+            throw new Error("row " + i + ": " + result[i].length + " cells, not " + header.length);
+        for (var pos of nums) {
+            var x: Cell = result[i][pos];
+            if (x !== "?" && (String(x).trim() === "" || isNaN(Number(x))))
+                throw new Error("row " + i + ", " + header[pos].trim() + ": not a number: " + x);
+        }
+    }
+}
+
+/**
+ * Labels the records with the options of the query string. The settings
+ * it changes are put back afterwards.
+ */
+function label(rows: Cell[][], query: Query): Answer {
+    var options: PipelineOptions = {
+        goal: query["goal"],
+        strategy: query["sort"],
+        objective: query["objective"],
+        both: query["both"] === "1" || query["both"] === "true"
+    };
+    var saved: { [key: string]: number } = {};
+    for (var key of SETTINGS)
+        saved[key] = Lean.label[key];
+    try {
+        for (var key of SETTINGS) {
+            if (query[key] === undefined)
+                continue;
+            if (query[key] === "" || isNaN(Number(query[key])))
+                throw new Error(key + " should be a number, not " + query[key]);
+            Lean.label[key] = Number(query[key]);
+        }
+        var labels: Labels = runPipeline(rows, options);
+        return { header: labels.header, rows: labels.rows, bands: bands(rows, labels, options.goal), tree: labels.tree };
+    } finally {
+        for (var key of SETTINGS)
+            Lean.label[key] = saved[key];
+    }
+}
+
+/**
+ * The number of rows in each band, and the summary of their goal (if any
+ * is known), in the order the bands were labelled.
+ */
+function bands(rows: Cell[][], labels: Labels, goal: string): Band[] {
+    var name: string = goalOf(new Table(rows[0].map(String)), goal).name;
+    var c: number = labels.header.map(cell => cell.trim()).indexOf(name);
+    var b: number = labels.header.length - 1;
+    var seen: string[] = [];
+    var n: { [band: string]: number } = {};
+    var goals: { [band: string]: Num } = {};
+    for (var row of labels.rows) {
+        var band: string = String(row[b]);
+        if (seen.indexOf(band) < 0) {
+            seen.push(band);
+            n[band] = 0;
+            goals[band] = num();
+        }
+        n[band]++;
+        numInc(goals[band], row[c]);
+    }
+    return seen.map(function (band: string): Band {
+        var g: Num = goals[band];
+        return g.count == 0 ? { band: band, n: n[band] }
+            : { band: band, n: n[band], min: g.min, max: g.max, mean: g.mean, sd: g.sd };
+    });
+}
@@ -1,7 +1,16 @@
 #!/usr/bin/env node
 
 import * as fs from "fs";
-import stream = require("stream");
+import * as os from "os";
+import * as path from "path";
+import { StringDecoder } from "string_decoder";
+import { configure } from "./config";
+import { Parser, Writer, csvCell, useFormats } from "./formats";
+import { useIds } from "./ids";
+import { Counts, Comparator, Strategy, counts, isSorted, strategies, strategy } from "./sorts";
+import { Key, compareRows, numericKeys, sortByGoal, sortKeys, sortRows, takeUnknowns, withUnknowns } from "./sortrows";
+import { Cell, Table, readRecords, readTable, reportMissing } from "./table";
+import { useValidation } from "./validate";
 
 /**
  * @file sortlastcol.ts
@@ -10,64 +19,181 @@ import stream = require("stream");
  * This filter in the pipe reads in comma-separated values from standard input.
  * It reads each line, not including the header line, then parses them as
  * comma-separated values, and stores the values in a 2D array. It then sorts
- * the rows by the value in their last column, and prints the values to standard
- * output in the same comma-separated format with the same header line.
+ * the rows and prints the values to standard output in the same
+ * comma-separated format with the same header line.
+ *
+ * By default rows are sorted by their goal column (the ">dom" score, or else
+ * the last "<" or ">" column of the header; see table.ts). Other orders are
+ * given with one or more sort keys, each a column name or a 1-based column
+ * index, optionally followed by a direction:
+ * -k key[:asc|:desc] (or --key=key[:asc|:desc]), repeated for more keys
+ * Numeric columns sort by value, symbolic columns lexicographically. Without
+ * a direction, "<" columns sort descending and all others ascending, so the
+ * best rows come last (which is where argmin looks for them). Rows that tie
+ * on every key keep their input order, whichever algorithm is used. The
+ * sorting itself is sortByGoal() in sortrows.ts, which other programs can
+ * import (see pipeline.ts); this file reads, prints and benchmarks.
  * 
  * The user can choose which sorting algorithm the program uses, thus implementing
- * the strategy pattern. By default, the program uses mergeSort (implementing recursion,
- * which is another abstraction). The user can specify a different sorting algorithm
- * using one of the following command line args:
+ * the strategy pattern (the algorithms are registered in sorts.ts). By default,
+ * the program uses mergeSort (implementing recursion, which is another
+ * abstraction). The user can specify a different sorting algorithm using one
+ * of the following command line args (or --sort=name):
  * -m = mergeSort
  * -b = bubbleSort
  * -s = selectionSort
+ * -bogo = bogoSort
+ * -heap = heapSort
+ * -intro = introsort (quick sort that falls back to heap sort)
+ * -tim = timsort-style natural merge sort
+ * -radix = radix sort (only when every sort key is numeric)
+ *
+ * --bench sorts the input with every registered algorithm instead of
+ * printing it, and reports the time, comparisons and swaps each one took,
+ * and whether its result passed isSorted. Algorithms too slow for the size
+ * of the input (or unable to sort on its keys) are reported as skipped.
+ *
+ * Inputs bigger than memory can be sorted with an external merge sort:
+ * -x[=rows] = sort runs of rows (default 100000) with the chosen algorithm,
+ *             spill each run to a temporary file, then merge the runs k ways
+ *
+ * Input and output formats are chosen with --in and --out (see formats.ts).
+ *
+ * Rows whose first key is unknown ("?") are not sorted. Where they go is set
+ * with --unknowns=first|last|drop (default last, as "ksort" does in lib.lua).
+ * Unknowns in later keys sort after the known values.
  */
 
-// start by reading the values
-readVals();
+// default number of rows per run for the external merge sort
+var RUN_SIZE: number = 100000;
+
+// the keys we sort on, in order of importance, and how they order two rows
+// (set once the header is read)
+var keys: Key[];
+var compare: Comparator<Cell[]>;
+
+// the sorting algorithm (see sorts.ts)
+var sorter: Strategy = strategy("merge");
+
+// report on every algorithm instead of printing the sorted rows
+var bench: boolean = false;
+
+// rows per run for the external merge sort (0 means sort in memory)
+var runSize: number = 0;
+
+// the -k options, as given
+var keySpecs: string[] = [];
+
+// where rows with an unknown first key go: first, last or drop
+var unknowns: string = "last";
+
+// where the sorted rows go (see formats.ts)
+var out: Writer;
+
+//command line arguments array, less the settings, formats, validation
+//policy and IDs (see config.ts, formats.ts, validate.ts and ids.ts)
+var args: string[] = useIds(useValidation(useFormats(configure(process.argv.slice(2)))));
+for (var i = 0; i < args.length; i++) {
+    var arg: string = args[i];
+    var m: RegExpExecArray;
+    if (strategy(arg) && arg.charAt(0) === "-")
+        sorter = strategy(arg);
+    else if ((m = /^--sort=(.+)$/.exec(arg)) && strategy(m[1]))
+        sorter = strategy(m[1]);
+    else if (arg === "--bench")
+        bench = true;
+    else if (m = /^-x(=(\d+))?$/.exec(arg))
+        runSize = m[2] ? Number(m[2]) : RUN_SIZE;
+    else if (arg === "-k" && i + 1 < args.length)
+        keySpecs.push(args[++i]);
+    else if (m = /^--key=(.+)$/.exec(arg))
+        keySpecs.push(m[1]);
+    else if (m = /^--unknowns=(first|last|drop)$/.exec(arg))
+        unknowns = m[1];
+    //anything else is an invalid arg
+    else
+        argsErr();
+}
+
+// start by reading the values; -x means the input may not fit in memory
+if (runSize > 0 && !bench)
+    externalSort(runSize);
+else
+    readVals();
 
 /**
  * Reads comma separated values from standard input
  * and stores it in a 2D array
  */
 function readVals() {
-    var data: string[] = fs.readFileSync('/dev/stdin', 'utf8').split("\n");
-    //prints the header
-    console.log(data[0]);
-    var vals: number[][] = data.slice(1, data.length - 1).map( 
-        line => line.split(",").map(Number)
-    );
-
-    processVals(vals);
+    readTable(function (t: Table) {
+        if (bench) {
+            keys = keysOf(t, undefined);
+            compare = compareRows(keys);
+            reportMissing(t);
+            benchmark(t.rows);
+            return;
+        }
+        var sorted: Cell[][];
+        try {
+            sorted = sortByGoal(t, { keys: keySpecs, strategy: sorter.name, unknowns: unknowns }).rows;
+        } catch (e) {
+            fail(e);
+        }
+        //prints the header, then the sorted values
+        out = new Writer(t.header, "sortlastcol");
+        reportMissing(t);
+        printVals(sorted);
+        out.end();
+    });
 }
 
 /**
- * Processes commang line args, sorts the vals array,
- * and calls the printVals function
- * @param vals the 2D array of vals we are processing
+ * Works out the sort keys from the -k options (or the goal column if
+ * there are none), exiting with an error if they are no good
+ * @param t the table, whose header names the columns
+ * @param s the strategy that will sort on them, if known
  */
-function processVals(vals: number[][]): void {
-    //command line arguments array
-    var args: string[] = process.argv;
-    //user entered too many arguments
-    if (args.length > 3)
-        argsErr();
-    //-m or no args at all means mergeSort
-    if (args.length == 2 || args[2] === "-m")
-        mergeSort(vals);
-    //-b means bubbleSort
-    else if (args[2] === "-b")
-        bubbleSort(vals);
-    //-s means selection sort
-    else if (args[2] === "-s")
-        selectionSort(vals);
-    else if (args[2] === "-bogo")
-        bogoSort(vals);
-    //anything else is an invalid arg
-    else
-        argsErr();
+function keysOf(t: Table, s: Strategy): Key[] {
+    try {
+        return sortKeys(t, keySpecs, s);
+    } catch (e) {
+        fail(e);
+    }
+}
 
-    //after sorting, print the vals
-    printVals(vals);
+/**
+ * Prints the message of an error from sortrows.ts and halts execution of
+ * the program
+ */
+function fail(e: Error): void {
+    process.stderr.write(e.message + "\n");
+    process.exit(-1);
+}
+
+/**
+ * Sorts the vals array with every registered strategy and prints, for
+ * each one, the time it took, its comparisons and swaps, and whether
+ * the result is sorted
+ * @param vals the 2D array of vals we are processing
+ */
+function benchmark(vals: Cell[][]): void {
+    takeUnknowns(vals, keys);
+    var n: number = vals.length;
+    console.log(["strategy", "ms", "comparisons", "swaps", "sorted"].join("\t"));
+    for (var s of strategies()) {
+        if ((s.limit !== undefined && n > s.limit) || (s.numeric && !numericKeys(keys))) {
+            console.log([s.name, "skipped"].join("\t"));
+            continue;
+        }
+        var tally: Counts = counts();
+        var start: [number, number] = process.hrtime();
+        var sorted: Cell[][] = sortRows(vals.slice(), keys, s, tally);
+        var time: [number, number] = process.hrtime(start);
+        var ms: number = time[0] * 1000 + time[1] / 1e6;
+        console.log([s.name, ms.toFixed(2), tally.comparisons, tally.swaps,
+            isSorted(sorted, compare) ? "yes" : "NO"].join("\t"));
+    }
 }
 
 /**
@@ -75,148 +201,204 @@ function processVals(vals: number[][]): void {
  */
 function argsErr(): void {
     process.stderr.write("Invalid command line args\n");
-    process.stderr.write("-m: merge sort (default)\n");
-    process.stderr.write("-b: bubble sort\n");
-    process.stderr.write("-s: selection sort\n");
+    for (var s of strategies())
+        process.stderr.write(s.flag + ", --sort=" + s.name + ": " + s.about + "\n");
+    process.stderr.write("--bench: time every sort on the input instead of printing it\n");
+    process.stderr.write("-x[=rows]: external merge sort, for inputs bigger than memory\n");
+    process.stderr.write("-k key[:asc|:desc], --key=key[:asc|:desc]: sort on a column name or 1-based index (repeatable)\n");
+    process.stderr.write("--unknowns=first|last|drop: where rows with a \"?\" first key go (default last)\n");
+    process.stderr.write("--in csv|tsv|jsonl, --out csv|tsv|jsonl|arff: input and output formats (see formats.ts)\n");
+    process.stderr.write("--on-error=fail|skip|warn: what to do with bad input (see validate.ts)\n");
+    process.stderr.write("--id[=column]: add row IDs, or take them from a column (see ids.ts)\n");
+    process.stderr.write("--show-config: print the settings (see config.ts)\n");
     process.exit(-1);
 }
 
 /**
- * Recursive divide & conquer sorting algorithm
- * We sort rows by their last column
- * @param vals the 2D array we are sorting
- * @param n the number of rows in the vals array
+ * Prints our sorted values, in the output format
+ * @param vals the 2D array we are printing
  */
-function mergeSort(vals: number[][], n: number = vals.length): void {
-    //base case: only one element
-    if (n < 2)
-        return;
-    var mid: number = Math.floor(n / 2);
-    var left: number[][] = [];
-    var right: number[][] = [];
-    for (var i: number = 0; i < mid; i++)
-        left[i] = vals[i];
-
-    for (var i: number = mid; i < n; i++)
-        right[i - mid] = vals[i];
-
-    mergeSort(left, mid);
-    mergeSort(right, n - mid);
-
-    merge(vals, left, right, mid, n - mid);
+function printVals(vals: Cell[][]): void {
+    //iterate through the rows
+    for (var row of vals)
+        out.row(row);
 }
 
 /**
- * Helper method for mergeSort algorithm, merges arrays together
- * @param vals the vals array we are sorting
- * @param left left half of the array
- * @param right right half of the array
- * @param leftn number of elements in left array
- * @param rightn number of elements in right array
+ * Sorts inputs bigger than memory. Rows are read from standard input in
+ * runs of "runSize" rows, and each run is sorted (with the chosen strategy) and spilled
+ * to a temporary file. The sorted runs are then merged (see mergeRuns)
+ * and printed. If the whole input fits in one run, nothing is spilled.
+ * Rows with an unknown goal are held in memory and printed before or
+ * after the merged runs.
+ * @param runSize the number of rows held in memory at once
  */
-function merge(vals: number[][], left: number[][], right: number[][],
-    leftn: number, rightn: number): void {
-    var i: number = 0;
-    var j: number = 0;
-    var k: number = 0;
-    while (i < leftn && j < rightn)
-        //comparing last col of row *i* in left array to last col of row *j* in right array
-        if (left[i][left[i].length - 1] < right[j][right[j].length - 1])
-            vals[k++] = left[i++];
-        else
-            vals[k++] = right[j++];
-
-    while (i < leftn)
-        vals[k++] = left[i++];
-    while (j < rightn)
-        vals[k++] = right[j++];
+function externalSort(runSize: number): void {
+    var t: Table;
+    var run: Cell[][] = [];
+    var missing: Cell[][] = [];
+    var dir: string;
+    var files: string[] = [];
+
+    //sorts the current run and writes it to the next temporary file
+    function spill(): void {
+        run = sortRows(run, keys, sorter, counts());
+        if (!dir)
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), "sortlastcol-"));
+        var file: string = path.join(dir, "run" + files.length);
+        fs.writeFileSync(file, run.map(row => row.map(csvCell).join(",")).join("\n") + "\n");
+        files.push(file);
+        run = [];
+    }
+
+    readRecords(function (cells: string[]) {
+        if (!t) {
+            t = new Table(cells);
+            keys = keysOf(t, sorter);
+            compare = compareRows(keys);
+            //prints the header
+            out = new Writer(t.header, "sortlastcol");
+            return;
+        }
+        var row: Cell[] = t.parse(cells);
+        if (row[keys[0].pos] === "?") {
+            missing.push(row);
+            return;
+        }
+        run.push(row);
+        if (run.length >= runSize)
+            spill();
+    }, function () {
+        if (t)
+            reportMissing(t);
+        if (!t)
+            return;
+        if (files.length == 0) {
+            printVals(withUnknowns(sortRows(run, keys, sorter, counts()), missing, unknowns));
+            out.end();
+            return;
+        }
+        if (run.length > 0)
+            spill();
+        if (unknowns === "first")
+            printVals(missing);
+        mergeRuns(files);
+        if (unknowns === "last")
+            printVals(missing);
+        out.end();
+        for (var file of files)
+            fs.unlinkSync(file);
+        fs.rmdirSync(dir);
+    });
 }
 
 /**
- * Sorts by switching elements of the array if they are out of order
- * Sorts rows by their last column
- * @param vals the 2D array we are sorting
+ * Reads the rows of one sorted run back from its temporary file (written
+ * as csv), a chunk at a time.
  */
-function bubbleSort(vals: number[][]): void {
-    var n: number = vals.length;
-    for (var i: number = 0; i < n - 1; i++)
-        for (var j: number = 0; j < n - i - 1; j++)
-            //compares last col of row *j* with last col of row *j+1*
-            if (vals[j][vals[j].length - 1] > vals[j + 1][vals[j + 1].length - 1]) {
-                //swap rows
-                var temp: number[] = vals[j];
-                vals[j] = vals[j + 1];
-                vals[j + 1] = temp;
+class RunReader {
+    //position of this run in the input, used to break ties
+    id: number;
+    //the current row of the run (with numeric keys as numbers)
+    row: Cell[];
+    parser: Parser;
+    records: string[][];
+    fd: number;
+    buf: Buffer;
+    decoder: InstanceType<typeof StringDecoder>;
+    lines: string[];
+    next_: number;
+    rest: string;
+
+    constructor(file: string, id: number) {
+        this.id = id;
+        this.fd = fs.openSync(file, "r");
+        this.buf = Buffer.alloc(1 << 16);
+        this.decoder = new StringDecoder("utf8");
+        this.lines = [];
+        this.next_ = 0;
+        this.rest = "";
+        this.parser = new Parser("csv");
+        this.records = [];
+    }
+
+    /**
+     * Moves on to the next row of the run
+     * @returns false once the run is exhausted
+     */
+    advance(): boolean {
+        while (this.records.length == 0) {
+            if (this.next_ < this.lines.length) {
+                this.records = this.parser.push(this.lines[this.next_++]);
+                continue;
             }
+            var n: number = fs.readSync(this.fd, this.buf, 0, this.buf.length, null);
+            if (n == 0) {
+                fs.closeSync(this.fd);
+                return false;
+            }
+            this.lines = (this.rest + this.decoder.write(this.buf.slice(0, n))).split("\n");
+            this.rest = this.lines.pop();
+            this.next_ = 0;
+        }
+        this.row = this.records.shift();
+        for (var k of keys)
+            if (k.numeric && this.row[k.pos] !== "?")
+                this.row[k.pos] = Number(this.row[k.pos]);
+        return true;
+    }
 }
 
 /**
- * Sorts by finding min value and bringing it to the front
- * Sorts rows by their last column
- * @param vals The 2D array we are sorting
+ * K-way merge of sorted runs: keeps a heap of the current row of each run,
+ * prints the first in sort order, and refills from the run it came from.
+ * @param files the temporary files holding the sorted runs
  */
-function selectionSort(vals: number[][]): void {
-    var n: number = vals.length;
-    for (var i: number = 0; i < n - 1; i++) {
-        var min: number = i;
-        for (var j: number = i + 1; j < n; j++)
-            //compares last col of row *j* with last col of row *min*
-            if (vals[j][vals[j].length - 1] <= vals[min][vals[min].length - 1])
-                min = j;
-
-        //swap rows
-        var temp: number[] = vals[min];
-        vals[min] = vals[i];
-        vals[i] = temp;
+function mergeRuns(files: string[]): void {
+    var heap: RunReader[] = [];
+    for (var i: number = 0; i < files.length; i++) {
+        var run: RunReader = new RunReader(files[i], i);
+        if (run.advance())
+            heap.push(run);
     }
-}
+    for (var i: number = Math.floor(heap.length / 2) - 1; i >= 0; i--)
+        siftDown(heap, i);
 
-/**
- * Random sorting algorithm. Sorts rows of 2D array
- * by the value in their last column
- * @param vals The 2D array being sorted
- */
-function bogoSort(vals: number[][]): void {
-    var n = vals.length;
-    while (!isSorted(vals)) {
-        //swaps every element with another random element
-        for (var i = 0; i < n; i++) {
-            var j = Math.floor(Math.random() * i);
-            var temp = vals[i];
-            vals[i] = vals[j];
-            vals[j] = temp;
+    while (heap.length > 0) {
+        out.row(heap[0].row);
+        if (!heap[0].advance()) {
+            heap[0] = heap[heap.length - 1];
+            heap.pop();
         }
+        siftDown(heap, 0);
     }
 }
 
 /**
- * Determines whether or not the vals array is sorted.
- * Tests based on the value in the last column of each row
- * @param vals The 2D array being tested
- * @returns true if the array is sorted
+ * Helper method for mergeRuns, restores the heap order below position i
+ * @param heap the runs, ordered by their current row
+ * @param i the position that may be out of order
  */
-function isSorted(vals: number[][]): boolean {
-    var n = vals.length;
-    for (var i = 1; i < n; i++)
-        //compares last col of row *i* with last col of row *i-1*
-        if (vals[i][vals[i].length - 1] < vals[i - 1][vals[i - 1].length - 1])
-            return false;
-    return true;
+function siftDown(heap: RunReader[], i: number): void {
+    var n: number = heap.length;
+    while (true) {
+        var least: number = i;
+        for (var child of [2 * i + 1, 2 * i + 2])
+            if (child < n && before(heap[child], heap[least]))
+                least = child;
+        if (least == i)
+            return;
+        var temp: RunReader = heap[i];
+        heap[i] = heap[least];
+        heap[least] = temp;
+        i = least;
+    }
 }
 
 /**
- * Prints our sorted values, separated by commas
- * @param vals the 2D array we are printing
+ * True if the current row of run a should be printed before that of run b.
+ * Ties go to the earlier run, so equal rows keep their input order.
  */
-function printVals(vals: number[][]): void {
-    //iterate through the rows
-    for (var row of vals) {
-        var j: number;
-        //we iterate up to second to last element to implement fencpost
-        for (j = 0; j < row.length - 1; j++) {
-            process.stdout.write(row[j] + ',');
-        }
-        //this prints the last element in row and goes to next line
-        console.log(row[j]);
-    }
+function before(a: RunReader, b: RunReader): boolean {
+    return (compare(a.row, b.row) || a.id - b.id) < 0;
 }
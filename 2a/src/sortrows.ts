@@ -0,0 +1,201 @@
+import { Comparator, Counts, Strategy, counting, counts, strategy } from "./sorts";
+import { Cell, Col, Rows, Table, tableOf } from "./table";
+
+/**
+ * @file sortrows.ts
+ *
+ * The first stage of the pipe, as a library: sorting rows on their keys
+ * (see sortlastcol.ts, which runs it as a filter, and pipeline.ts).
+ *
+ * A sort key is a column name or a 1-based column index, optionally
+ * followed by ":asc" or ":desc". Numeric columns sort by value, symbolic
+ * columns lexicographically. Without a direction, "<" columns sort
+ * descending and all others ascending, so the best rows come last. Rows
+ * that tie on every key keep their input order, whichever algorithm is
+ * used. Without keys, rows are sorted on their goal column (see table.ts).
+ *
+ * Rows whose first key is unknown ("?") are not sorted; "unknowns" says
+ * whether they go first, last or are dropped. Unknowns in later keys sort
+ * after the known values.
+ */
+
+// A sort key: where it is in each row, how to compare it, and which way.
+export interface Key {
+    pos: number;
+    numeric: boolean;
+    // 1 for ascending, -1 for descending
+    dir: number;
+}
+
+export interface SortOptions {
+    // the sort keys, in order of importance (the goal column by default)
+    keys?: string[];
+    // the name of the sorting algorithm (see sorts.ts; merge by default)
+    strategy?: string;
+    // where rows with an unknown first key go: first, last (the default) or drop
+    unknowns?: string;
+}
+
+// A row plus its position in the input, to break ties.
+interface Item {
+    row: Cell[];
+    at: number;
+}
+
+/**
+ * Sorts rows on their goal column, or on the keys given.
+ * Throws an Error for an unknown column, algorithm or "unknowns" setting,
+ * or if the algorithm cannot sort on the keys.
+ * @param data the header and rows (a Table will do)
+ * @returns the header and the sorted rows (the input is not changed)
+ */
+export function sortByGoal(data: Rows, options: SortOptions = {}): Rows {
+    var s: Strategy = strategy(options.strategy || "merge");
+    if (!s)
+        throw new Error("No such sort: " + options.strategy);
+    var unknowns: string = options.unknowns || "last";
+    if (["first", "last", "drop"].indexOf(unknowns) < 0)
+        throw new Error("Invalid unknowns: " + unknowns + " (use first|last|drop)");
+    var t: Table = tableOf(data);
+    var keys: Key[] = sortKeys(t, options.keys || [], s);
+    var rows: Cell[][] = t.rows.slice();
+    var missing: Cell[][] = takeUnknowns(rows, keys);
+    return {
+        header: t.header,
+        rows: withUnknowns(sortRows(rows, keys, s, counts()), missing, unknowns)
+    };
+}
+
+/**
+ * Works out the sort keys from their specs (or the goal column if there
+ * are none). Throws an Error for a column that is not there, or if "s" is
+ * a numeric strategy and a key is not numeric.
+ * @param t the table, whose header names the columns
+ * @param specs the keys, as given (see above)
+ * @param s the strategy that will sort on the keys, if known
+ */
+export function sortKeys(t: Table, specs: string[], s?: Strategy): Key[] {
+    if (specs.length == 0)
+        specs = [t.goal().name];
+    var result: Key[] = specs.map(function (spec: string): Key {
+        var m = /^(.*?)(:(asc|desc))?$/.exec(spec);
+        var pos: number = /^\d+$/.test(m[1]) ? Number(m[1]) - 1 : -1;
+        var col: Col = pos >= 0 ? colAt(t, pos) : t.col(m[1]);
+        if (!col && (pos < 0 || pos >= t.header.length))
+            throw new Error("No such column: " + m[1]);
+        if (col)
+            pos = col.pos;
+        var dir: number = col && col.w < 0 ? -1 : 1;
+        if (m[3])
+            dir = m[3] === "asc" ? 1 : -1;
+        return { pos: pos, numeric: !!(col && col.num), dir: dir };
+    });
+    if (s && s.numeric && !numericKeys(result))
+        throw new Error("The " + s.name + " sort needs numeric sort keys");
+    return result;
+}
+
+/**
+ * Returns the used column at position pos (undefined for a "?" column)
+ */
+function colAt(t: Table, pos: number): Col {
+    for (var col of t.cols)
+        if (col.pos == pos)
+            return col;
+    return undefined;
+}
+
+/**
+ * The comparator of rows on the sort keys: a negative number if a goes
+ * first, positive if b does, else 0
+ */
+export function compareRows(keys: Key[]): Comparator<Cell[]> {
+    return function (a: Cell[], b: Cell[]): number {
+        for (var k of keys) {
+            var x: Cell = a[k.pos];
+            var y: Cell = b[k.pos];
+            if (x === y)
+                continue;
+            //unknowns go after known values
+            if (x === "?")
+                return 1;
+            if (y === "?")
+                return -1;
+            return (x < y ? -1 : 1) * k.dir;
+        }
+        return 0;
+    };
+}
+
+/**
+ * Takes the rows with an unknown first key out of the rows array,
+ * so that only known values are compared
+ * @param rows the rows we are sorting
+ * @returns the rows with an unknown first key, in input order
+ */
+export function takeUnknowns(rows: Cell[][], keys: Key[]): Cell[][] {
+    var missing: Cell[][] = [];
+    var n: number = 0;
+    for (var row of rows) {
+        if (row[keys[0].pos] === "?")
+            missing.push(row);
+        else
+            rows[n++] = row;
+    }
+    rows.length = n;
+    return missing;
+}
+
+/**
+ * Puts the rows with an unknown first key back, where "unknowns" says
+ * @param rows the sorted rows
+ * @param missing the rows with an unknown first key
+ * @param unknowns first, last or drop
+ */
+export function withUnknowns(rows: Cell[][], missing: Cell[][], unknowns: string): Cell[][] {
+    if (unknowns === "first")
+        return missing.concat(rows);
+    if (unknowns === "last")
+        return rows.concat(missing);
+    return rows;
+}
+
+/**
+ * Sorts rows with one strategy, keeping ties in input order
+ * @param rows the rows to sort (all with a known first key)
+ * @param s the strategy
+ * @param tally where the strategy counts its swaps
+ * @returns the sorted rows
+ */
+export function sortRows(rows: Cell[][], keys: Key[], s: Strategy, tally: Counts): Cell[][] {
+    var compare: Comparator<Cell[]> = compareRows(keys);
+    //compare() on the rows, then input order, so no two items tie and
+    //every algorithm is stable
+    var order = (a: Item, b: Item) => compare(a.row, b.row) || a.at - b.at;
+    var items: Item[] = rows.map((row: Cell[], at: number) => ({ row: row, at: at }));
+    s.sort(items, counting(order, tally), tally, s.numeric ? radixKeys(keys) : undefined);
+    return items.map(item => item.row);
+}
+
+/**
+ * True if every one of the sort keys is a numeric column
+ */
+export function numericKeys(keys: Key[]): boolean {
+    for (var k of keys)
+        if (!k.numeric)
+            return false;
+    return true;
+}
+
+/**
+ * The sort keys as numbers that sort ascending, for the numeric strategies:
+ * the direction is folded into the sign, and unknowns become +Infinity so
+ * they go after known values (as in compareRows()).
+ */
+function radixKeys(keys: Key[]): Array<(item: Item) => number> {
+    return keys.map(k => function (item: Item): number {
+        var x: Cell = item.row[k.pos];
+        //adding 0 turns -0 into 0, so the two tie as they do in compareRows()
+        return x === "?" ? Infinity : k.dir * <number>x + 0;
+    });
+}
@@ -0,0 +1,535 @@
+/**
+ * @file sorts.ts
+ *
+ * The sorting strategies of sortlastcol.ts. Each algorithm is a "Strategy"
+ * in a registry that the filter looks strategies up in (by their flag or
+ * name), so a new algorithm joins by calling register(); see the end of
+ * this file for the built-in ones.
+ *
+ * Every strategy sorts an array in place with a comparator that returns a
+ * negative number when its first argument goes first. Strategies also tally
+ * their "swaps" (exchanges, or element moves for the algorithms that copy
+ * rather than exchange) in a Counts, so that --bench can compare them;
+ * comparisons are tallied by wrapping the comparator (see counting()).
+ */
+
+export type Comparator<T> = (a: T, b: T) => number;
+
+export interface Counts {
+    comparisons: number;
+    swaps: number;
+}
+
+export interface Strategy {
+    // name used with --sort=name
+    name: string;
+    // short command line flag, e.g. "-m"
+    flag: string;
+    // what the strategy is, for the usage message
+    about: string;
+    // the largest input --bench will try it on (no limit if unset)
+    limit?: number;
+    // true if it can only sort by numeric keys (and so needs "keys")
+    numeric?: boolean;
+    /**
+     * @param vals the array to sort
+     * @param cmp the comparator
+     * @param counts where to tally swaps
+     * @param keys for numeric strategies: the sort keys of an element, most
+     *             important first, as numbers that sort ascending
+     */
+    sort<T>(vals: T[], cmp: Comparator<T>, counts: Counts,
+        keys?: Array<(x: T) => number>): void;
+}
+
+var registry: Strategy[] = [];
+
+/**
+ * Adds a strategy to the registry.
+ */
+export function register(strategy: Strategy): void {
+    registry.push(strategy);
+}
+
+/**
+ * Returns all registered strategies, in the order they were registered.
+ */
+export function strategies(): Strategy[] {
+    return registry.slice();
+}
+
+/**
+ * Finds a registered strategy by its flag ("-m") or its name ("merge").
+ * @returns the strategy, or undefined if there is none
+ */
+export function strategy(flagOrName: string): Strategy {
+    for (var s of registry)
+        if (s.flag === flagOrName || s.name === flagOrName)
+            return s;
+    return undefined;
+}
+
+/**
+ * Returns a fresh, zeroed tally.
+ */
+export function counts(): Counts {
+    return { comparisons: 0, swaps: 0 };
+}
+
+/**
+ * Wraps a comparator so that every call is tallied in "counts".
+ */
+export function counting<T>(cmp: Comparator<T>, counts: Counts): Comparator<T> {
+    return function (a: T, b: T): number {
+        counts.comparisons++;
+        return cmp(a, b);
+    };
+}
+
+/**
+ * Determines whether or not the vals array is sorted.
+ * Tests based on the comparator
+ * @param vals The array being tested
+ * @param cmp the comparator
+ * @returns true if the array is sorted
+ */
+export function isSorted<T>(vals: T[], cmp: Comparator<T>): boolean {
+    var n = vals.length;
+    for (var i = 1; i < n; i++)
+        //compares row *i* with row *i-1*
+        if (cmp(vals[i], vals[i - 1]) < 0)
+            return false;
+    return true;
+}
+
+/**
+ * Exchanges two elements of an array
+ */
+function swap<T>(vals: T[], i: number, j: number, counts: Counts): void {
+    var temp: T = vals[i];
+    vals[i] = vals[j];
+    vals[j] = temp;
+    counts.swaps++;
+}
+
+/**
+ * Recursive divide & conquer sorting algorithm
+ * We sort rows by the comparator
+ * @param vals the array we are sorting
+ * @param cmp the comparator (negative when its first argument goes first)
+ * @param counts where to tally moves
+ * @param n the number of rows in the vals array
+ */
+function mergeSort<T>(vals: T[], cmp: Comparator<T>, counts: Counts, n: number = vals.length): void {
+    //base case: only one element
+    if (n < 2)
+        return;
+    var mid: number = Math.floor(n / 2);
+    var left: T[] = [];
+    var right: T[] = [];
+    for (var i: number = 0; i < mid; i++)
+        left[i] = vals[i];
+
+    for (var i: number = mid; i < n; i++)
+        right[i - mid] = vals[i];
+
+    mergeSort(left, cmp, counts, mid);
+    mergeSort(right, cmp, counts, n - mid);
+
+    merge(vals, cmp, counts, left, right, mid, n - mid);
+}
+
+/**
+ * Helper method for mergeSort algorithm, merges arrays together
+ * @param vals the vals array we are sorting
+ * @param cmp the comparator
+ * @param counts where to tally moves
+ * @param left left half of the array
+ * @param right right half of the array
+ * @param leftn number of elements in left array
+ * @param rightn number of elements in right array
+ */
+function merge<T>(vals: T[], cmp: Comparator<T>, counts: Counts, left: T[], right: T[],
+    leftn: number, rightn: number): void {
+    var i: number = 0;
+    var j: number = 0;
+    var k: number = 0;
+    while (i < leftn && j < rightn)
+        //comparing row *i* in left array to row *j* in right array;
+        //ties go to the left, so equal rows keep their order
+        if (cmp(left[i], right[j]) <= 0)
+            vals[k++] = left[i++];
+        else
+            vals[k++] = right[j++];
+
+    while (i < leftn)
+        vals[k++] = left[i++];
+    while (j < rightn)
+        vals[k++] = right[j++];
+    counts.swaps += k;
+}
+
+/**
+ * Sorts by switching elements of the array if they are out of order
+ * Sorts rows by the comparator
+ * @param vals the array we are sorting
+ * @param cmp the comparator
+ * @param counts where to tally swaps
+ */
+function bubbleSort<T>(vals: T[], cmp: Comparator<T>, counts: Counts): void {
+    var n: number = vals.length;
+    for (var i: number = 0; i < n - 1; i++)
+        for (var j: number = 0; j < n - i - 1; j++)
+            //compares row *j* with row *j+1*
+            if (cmp(vals[j], vals[j + 1]) > 0)
+                //swap rows
+                swap(vals, j, j + 1, counts);
+}
+
+/**
+ * Sorts by finding min value and bringing it to the front
+ * Sorts rows by the comparator
+ * @param vals The array we are sorting
+ * @param cmp the comparator
+ * @param counts where to tally swaps
+ */
+function selectionSort<T>(vals: T[], cmp: Comparator<T>, counts: Counts): void {
+    var n: number = vals.length;
+    for (var i: number = 0; i < n - 1; i++) {
+        var min: number = i;
+        for (var j: number = i + 1; j < n; j++)
+            //compares row *j* with row *min*
+            if (cmp(vals[j], vals[min]) < 0)
+                min = j;
+
+        //swap rows
+        swap(vals, min, i, counts);
+    }
+}
+
+/**
+ * Random sorting algorithm. Sorts rows of an array
+ * by the comparator
+ * @param vals The array being sorted
+ * @param cmp the comparator
+ * @param counts where to tally swaps
+ */
+function bogoSort<T>(vals: T[], cmp: Comparator<T>, counts: Counts): void {
+    var n = vals.length;
+    while (!isSorted(vals, cmp)) {
+        //swaps every element with a random element at or before it, so
+        //every order can come up (with "* i", only some could, and some
+        //inputs were never sorted)
+        for (var i = 0; i < n; i++) {
+            var j = Math.floor(Math.random() * (i + 1));
+            swap(vals, i, j, counts);
+        }
+    }
+}
+
+/**
+ * Heap sort of vals[lo..hi]: builds a max-heap in place, then repeatedly
+ * swaps its root to the end of the shrinking range. O(n log n) always.
+ * @param vals the array we are sorting
+ * @param cmp the comparator
+ * @param counts where to tally swaps
+ * @param lo first position of the range to sort
+ * @param hi last position of the range to sort
+ */
+function heapSort<T>(vals: T[], cmp: Comparator<T>, counts: Counts,
+    lo: number = 0, hi: number = vals.length - 1): void {
+    var n: number = hi - lo + 1;
+    for (var i: number = Math.floor(n / 2) - 1; i >= 0; i--)
+        siftDown(vals, cmp, counts, lo, i, n);
+    for (var end: number = n - 1; end > 0; end--) {
+        swap(vals, lo, lo + end, counts);
+        siftDown(vals, cmp, counts, lo, 0, end);
+    }
+}
+
+/**
+ * Helper method for heapSort, restores the max-heap order below position i
+ * of the heap that starts at vals[lo] and holds n elements
+ */
+function siftDown<T>(vals: T[], cmp: Comparator<T>, counts: Counts,
+    lo: number, i: number, n: number): void {
+    while (true) {
+        var most: number = i;
+        var left: number = 2 * i + 1;
+        var right: number = left + 1;
+        if (left < n && cmp(vals[lo + left], vals[lo + most]) > 0)
+            most = left;
+        if (right < n && cmp(vals[lo + right], vals[lo + most]) > 0)
+            most = right;
+        if (most == i)
+            return;
+        swap(vals, lo + i, lo + most, counts);
+        i = most;
+    }
+}
+
+// Ranges this small are finished with insertion sort.
+var SMALL: number = 16;
+
+/**
+ * Introsort: quick sort with a median-of-three pivot, which falls back to
+ * heap sort when the recursion gets too deep (so it is O(n log n) even on
+ * inputs that are bad for quick sort), and to insertion sort on small ranges.
+ * @param vals the array we are sorting
+ * @param cmp the comparator
+ * @param counts where to tally swaps
+ */
+function introSort<T>(vals: T[], cmp: Comparator<T>, counts: Counts): void {
+    var depth: number = 2 * Math.floor(Math.log(vals.length + 1) / Math.LN2);
+    introLoop(vals, cmp, counts, 0, vals.length - 1, depth);
+}
+
+/**
+ * Helper method for introSort, sorts vals[lo..hi]
+ * @param depth how many more levels of quick sort are allowed
+ */
+function introLoop<T>(vals: T[], cmp: Comparator<T>, counts: Counts,
+    lo: number, hi: number, depth: number): void {
+    while (hi - lo > SMALL) {
+        if (depth-- == 0) {
+            heapSort(vals, cmp, counts, lo, hi);
+            return;
+        }
+        var p: number = partition(vals, cmp, counts, lo, hi);
+        //recurse into the smaller side, loop on the larger one
+        if (p - lo < hi - p) {
+            introLoop(vals, cmp, counts, lo, p - 1, depth);
+            lo = p + 1;
+        } else {
+            introLoop(vals, cmp, counts, p + 1, hi, depth);
+            hi = p - 1;
+        }
+    }
+    insertionSort(vals, cmp, counts, lo, hi);
+}
+
+/**
+ * Helper method for introSort: moves the median of the first, middle and
+ * last elements to the end, then partitions vals[lo..hi] around it
+ * @returns the final position of the pivot
+ */
+function partition<T>(vals: T[], cmp: Comparator<T>, counts: Counts,
+    lo: number, hi: number): number {
+    var mid: number = lo + Math.floor((hi - lo) / 2);
+    if (cmp(vals[mid], vals[lo]) < 0)
+        swap(vals, mid, lo, counts);
+    if (cmp(vals[hi], vals[lo]) < 0)
+        swap(vals, hi, lo, counts);
+    if (cmp(vals[mid], vals[hi]) < 0)
+        swap(vals, mid, hi, counts);
+    var pivot: T = vals[hi];
+    var i: number = lo;
+    for (var j: number = lo; j < hi; j++)
+        if (cmp(vals[j], pivot) < 0)
+            swap(vals, i++, j, counts);
+    swap(vals, i, hi, counts);
+    return i;
+}
+
+/**
+ * Insertion sort of vals[lo..hi], for short ranges
+ */
+function insertionSort<T>(vals: T[], cmp: Comparator<T>, counts: Counts,
+    lo: number, hi: number): void {
+    for (var i: number = lo + 1; i <= hi; i++)
+        for (var j: number = i; j > lo && cmp(vals[j], vals[j - 1]) < 0; j--)
+            swap(vals, j, j - 1, counts);
+}
+
+/**
+ * A timsort-style natural merge sort: finds the runs already in the input
+ * (reversing strictly descending ones), extends short runs to "minrun"
+ * elements with binary insertion sort, and merges runs from a stack whose
+ * lengths are kept roughly Fibonacci-like, so merges stay balanced. Inputs
+ * that are already (nearly) sorted take close to n comparisons.
+ * @param vals the array we are sorting
+ * @param cmp the comparator
+ * @param counts where to tally moves
+ */
+function timSort<T>(vals: T[], cmp: Comparator<T>, counts: Counts): void {
+    var n: number = vals.length;
+    var minrun: number = minRun(n);
+    //start and length of each pending run
+    var starts: number[] = [];
+    var lengths: number[] = [];
+    var i: number = 0;
+    while (i < n) {
+        var len: number = countRun(vals, cmp, counts, i);
+        if (len < minrun) {
+            var forced: number = Math.min(minrun, n - i);
+            binaryInsertion(vals, cmp, counts, i, i + forced, i + len);
+            len = forced;
+        }
+        starts.push(i);
+        lengths.push(len);
+        i += len;
+        //merge until the run lengths satisfy the stack invariants
+        while (lengths.length > 1) {
+            var k: number = lengths.length - 2;
+            if (k > 0 && lengths[k - 1] <= lengths[k] + lengths[k + 1]) {
+                if (lengths[k - 1] < lengths[k + 1])
+                    k--;
+            } else if (lengths[k] > lengths[k + 1]) {
+                break;
+            }
+            mergeAt(vals, cmp, counts, starts, lengths, k);
+        }
+    }
+    while (lengths.length > 1)
+        mergeAt(vals, cmp, counts, starts, lengths, lengths.length - 2);
+}
+
+/**
+ * Helper method for timSort: the minimum run length, between 32 and 64,
+ * chosen so that n / minrun is (close to) a power of two
+ */
+function minRun(n: number): number {
+    var r: number = 0;
+    while (n >= 64) {
+        r |= n & 1;
+        n >>= 1;
+    }
+    return n + r;
+}
+
+/**
+ * Helper method for timSort: the length of the run starting at lo. A
+ * strictly descending run is reversed in place (strictly, so that equal
+ * elements never change order).
+ */
+function countRun<T>(vals: T[], cmp: Comparator<T>, counts: Counts, lo: number): number {
+    var hi: number = lo + 1;
+    if (hi >= vals.length)
+        return vals.length - lo;
+    if (cmp(vals[hi++], vals[lo]) < 0) {
+        while (hi < vals.length && cmp(vals[hi], vals[hi - 1]) < 0)
+            hi++;
+        for (var i: number = lo, j: number = hi - 1; i < j; i++, j--)
+            swap(vals, i, j, counts);
+    } else {
+        while (hi < vals.length && cmp(vals[hi], vals[hi - 1]) >= 0)
+            hi++;
+    }
+    return hi - lo;
+}
+
+/**
+ * Helper method for timSort: sorts vals[lo..hi-1], given that
+ * vals[lo..start-1] is already sorted, by binary insertion
+ */
+function binaryInsertion<T>(vals: T[], cmp: Comparator<T>, counts: Counts,
+    lo: number, hi: number, start: number): void {
+    for (var i: number = start; i < hi; i++) {
+        var x: T = vals[i];
+        var left: number = lo;
+        var right: number = i;
+        while (left < right) {
+            var mid: number = (left + right) >>> 1;
+            if (cmp(x, vals[mid]) < 0)
+                right = mid;
+            else
+                left = mid + 1;
+        }
+        for (var j: number = i; j > left; j--)
+            vals[j] = vals[j - 1];
+        vals[left] = x;
+        counts.swaps += i - left + 1;
+    }
+}
+
+/**
+ * Helper method for timSort: merges pending runs k and k+1 (which are next
+ * to each other in vals) and replaces them on the stack with the result
+ */
+function mergeAt<T>(vals: T[], cmp: Comparator<T>, counts: Counts,
+    starts: number[], lengths: number[], k: number): void {
+    var lo: number = starts[k];
+    var left: T[] = vals.slice(lo, lo + lengths[k]);
+    var right: T[] = vals.slice(lo + lengths[k], lo + lengths[k] + lengths[k + 1]);
+    var merged: T[] = [];
+    merge(merged, cmp, counts, left, right, left.length, right.length);
+    for (var i: number = 0; i < merged.length; i++)
+        vals[lo + i] = merged[i];
+    lengths[k] += lengths[k + 1];
+    starts.splice(k + 1, 1);
+    lengths.splice(k + 1, 1);
+}
+
+/**
+ * LSD radix sort on numeric keys. Each key is mapped to the 64 bits of its
+ * IEEE-754 form, flipped so that the bits sort in the same order as the
+ * numbers, and the elements are then counting-sorted 8 bits at a time,
+ * from the least important key to the most. Every pass is stable, so
+ * elements with equal keys keep their order. O(n) per key.
+ * @param vals the array we are sorting
+ * @param cmp unused (the keys decide the order)
+ * @param counts where to tally moves
+ * @param keys the sort keys of an element, most important first
+ */
+function radixSort<T>(vals: T[], cmp: Comparator<T>, counts: Counts,
+    keys: Array<(x: T) => number>): void {
+    var n: number = vals.length;
+    var view: DataView = new DataView(new ArrayBuffer(8));
+    var words: number[] = [];
+    var index: number[] = [];
+    var next: number[] = [];
+    for (var i: number = 0; i < n; i++)
+        index[i] = i;
+    for (var k: number = keys.length - 1; k >= 0; k--) {
+        var hi: number[] = [];
+        var lo: number[] = [];
+        for (var i: number = 0; i < n; i++) {
+            view.setFloat64(0, keys[k](vals[i]));
+            var h: number = view.getUint32(0);
+            var l: number = view.getUint32(4);
+            //negative numbers: flip all bits; others: flip the sign bit
+            if (h & 0x80000000) {
+                hi[i] = ~h >>> 0;
+                lo[i] = ~l >>> 0;
+            } else {
+                hi[i] = (h | 0x80000000) >>> 0;
+                lo[i] = l;
+            }
+        }
+        for (var pass: number = 0; pass < 8; pass++) {
+            words = pass < 4 ? lo : hi;
+            var shift: number = (pass % 4) * 8;
+            var bucket: number[] = [];
+            for (var b: number = 0; b <= 256; b++)
+                bucket[b] = 0;
+            for (var i: number = 0; i < n; i++)
+                bucket[((words[index[i]] >>> shift) & 0xFF) + 1]++;
+            for (var b: number = 1; b <= 256; b++)
+                bucket[b] += bucket[b - 1];
+            for (var i: number = 0; i < n; i++)
+                next[bucket[(words[index[i]] >>> shift) & 0xFF]++] = index[i];
+            var temp: number[] = index;
+            index = next;
+            next = temp;
+            counts.swaps += n;
+        }
+    }
+    var sorted: T[] = index.map(i => vals[i]);
+    for (var i: number = 0; i < n; i++)
+        vals[i] = sorted[i];
+}
+
+register({
+    name: "merge", flag: "-m", about: "merge sort (default)",
+    sort: <T>(vals: T[], cmp: Comparator<T>, counts: Counts) => mergeSort(vals, cmp, counts)
+});
+register({ name: "bubble", flag: "-b", about: "bubble sort", limit: 10000, sort: bubbleSort });
+register({ name: "selection", flag: "-s", about: "selection sort", limit: 10000, sort: selectionSort });
+register({ name: "bogo", flag: "-bogo", about: "bogo sort", limit: 8, sort: bogoSort });
+register({
+    name: "heap", flag: "-heap", about: "heap sort",
+    sort: <T>(vals: T[], cmp: Comparator<T>, counts: Counts) => heapSort(vals, cmp, counts)
+});
+register({ name: "intro", flag: "-intro", about: "introsort (quick sort, heap sort when too deep)", sort: introSort });
+register({ name: "tim", flag: "-tim", about: "timsort-style natural merge sort", sort: timSort });
+register({ name: "radix", flag: "-radix", about: "radix sort (numeric keys only)", numeric: true, sort: radixSort });
@@ -0,0 +1,370 @@
+#!/usr/bin/env node
+
+import { Lean, configure } from "./config";
+import { Writer, outFormat, useFormats } from "./formats";
+import { useIds } from "./ids";
+import { Num, num, numInc } from "./num";
+import { rand, rseed } from "./random";
+import { Cell, Col, Table, bestKlass, readTable, reportMissing } from "./table";
+import { useValidation } from "./validate";
+
+/**
+ * @file stats.ts
+ *
+ * This filter reports whether the rows Pipe3 labelled "best" really differ
+ * from the rest, column by column:
+ *
+ *     ... | node Pipe3.js | node stats.js
+ *
+ * The best rows are those of the "!klass" label with the highest mean
+ * ">dom" score (as in rank.ts); all other labelled rows are the rest. For
+ * every numeric column, the best and rest values are compared by
+ *
+ *    - a bootstrap test (Efron and Tibshirani's, as in the "stats" code
+ *      config.lua is set up for): how often resamples of the two groups,
+ *      shifted to the same mean, differ by as much as the groups do. The
+ *      difference is significant if that happens less than 100-conf % of
+ *      the time, over "bootstraps" resamples (Lean.stats: conf=95,
+ *      bootstraps=375);
+ *    - Cliff's delta: the chance that a best value is bigger than a rest
+ *      value, less the chance that it is smaller. Its size is negligible
+ *      below 0.147, small below 0.33, medium below 0.474, and large above.
+ *
+ * and printed, as tab-separated lines of
+ *
+ *     column, best median, rest median, p, significant, delta, effect
+ *
+ * If there are more than two labels (as after "argmin --both"), the labels
+ * are also ranked, column by column, by a Scott-Knott test: the labels,
+ * sorted by their median, are split where the means of the two sides
+ * differ most, as long as they differ by more than a small effect (Lean.sk:
+ * cohen=0.2 standard deviations) and by the bootstrap test at Lean.sk.conf,
+ * with a Cliff's delta of at least Lean.stats.cf; then each side is split
+ * again. Labels that were never split apart share a rank, printed after a
+ * blank line as
+ *
+ *     column, rank, label, n, median, iqr
+ *
+ * Resamples use the seedable generator in random.ts (Lean.random.seed), so
+ * runs can be repeated. Command line args:
+ * --json = print the report as JSON instead
+ * --in   = the input format (see formats.ts)
+ * --out  = print the best-vs-rest lines as a table in that format instead
+ *          (with a header; the ranks are in the text and JSON reports)
+ * and the settings above can be changed as usual (e.g. "--stats.conf=99";
+ * see config.ts).
+ */
+
+// The sizes of Cliff's delta, from the thresholds in config.lua.
+var EFFECTS: Array<[number, string]> = [[0.147, "negligible"], [0.33, "small"], [0.474, "medium"]];
+
+interface Test {
+    column: string;
+    best: number;
+    rest: number;
+    p: number;
+    significant: boolean;
+    delta: number;
+    effect: string;
+    // the Scott-Knott ranks of every label (only with more than two)
+    ranks: Rank[];
+}
+
+interface Rank {
+    rank: number;
+    label: string;
+    n: number;
+    median: number;
+    iqr: number;
+}
+
+// print JSON instead of text
+var json: boolean = false;
+
+for (var arg of useIds(useValidation(useFormats(configure(process.argv.slice(2)))))) {
+    if (arg === "--json")
+        json = true;
+    else
+        argsErr();
+}
+rseed(Lean.random.seed);
+
+readTable(function (t: Table) {
+    reportMissing(t);
+    report(tests(t));
+});
+
+/**
+ * Prints an error message and halts execution of the program
+ */
+function argsErr(): void {
+    process.stderr.write("Invalid command line args\n");
+    process.stderr.write("--json: print the report as JSON\n");
+    process.stderr.write("--in csv|tsv|jsonl, --out csv|tsv|jsonl|arff: input format, and report format\n");
+    process.stderr.write("--on-error=fail|skip|warn: what to do with bad input (see validate.ts)\n");
+    process.stderr.write("--id[=column]: add row IDs, or take them from a column (see ids.ts)\n");
+    process.stderr.write("--show-config: print the settings (see config.ts)\n");
+    process.exit(-1);
+}
+
+/**
+ * Compares best and rest on every numeric column.
+ * @param t the table, labelled by Pipe3
+ */
+function tests(t: Table): Test[] {
+    var klass: Col = t.klass || t.cols[t.cols.length - 1];
+    var best: string = bestKlass(t, klass);
+    var result: Test[] = [];
+    for (var col of t.nums) {
+        if (col === klass)
+            continue;
+        //the known values of the column, for each label
+        var groups: { [label: string]: number[] } = {};
+        var labels: string[] = [];
+        for (var row of t.rows) {
+            var k: string = String(row[klass.pos]);
+            if (k === "?" || row[col.pos] === "?")
+                continue;
+            if (!groups[k]) {
+                groups[k] = [];
+                labels.push(k);
+            }
+            groups[k].push(<number>row[col.pos]);
+        }
+        var xs: number[] = groups[best] || [];
+        var ys: number[] = [];
+        for (var label of labels)
+            if (label !== best)
+                ys = ys.concat(groups[label]);
+        if (xs.length == 0 || ys.length == 0)
+            continue;
+        var p: number = bootstrap(xs, ys, Lean.stats.bootstraps);
+        var delta: number = cliffsDelta(xs, ys);
+        result.push({
+            column: col.name,
+            best: median(sorted(xs)),
+            rest: median(sorted(ys)),
+            p: p,
+            significant: p < 1 - Lean.stats.conf / 100,
+            delta: delta,
+            effect: effect(delta),
+            ranks: labels.length > 2 ? scottKnott(labels.map(label => groups[label]), labels) : []
+        });
+    }
+    return result;
+}
+
+/**
+ * Bootstrap test of whether two samples differ: the fraction of resamples
+ * (of the samples shifted to their joint mean, so that they do not differ)
+ * whose test statistic is at least that of the samples themselves.
+ * @param b the number of resamples
+ * @returns that fraction (a p value)
+ */
+function bootstrap(xs: number[], ys: number[], b: number): number {
+    var all: Num = summary(xs.concat(ys));
+    var x: Num = summary(xs);
+    var y: Num = summary(ys);
+    var observed: number = statistic(x, y);
+    var xhat: number[] = xs.map(v => v - x.mean + all.mean);
+    var yhat: number[] = ys.map(v => v - y.mean + all.mean);
+    var bigger: number = 0;
+    for (var i = 0; i < b; i++)
+        if (statistic(summary(resample(xhat)), summary(resample(yhat))) >= observed)
+            bigger++;
+    return bigger / b;
+}
+
+/**
+ * The test statistic of the bootstrap: the difference of the means, over
+ * its standard error (Welch's t), as an absolute value.
+ */
+function statistic(x: Num, y: Num): number {
+    var delta: number = Math.abs(y.mean - x.mean);
+    var se: number = Math.sqrt(x.sd * x.sd / x.count + y.sd * y.sd / y.count);
+    return se > 0 ? delta / se : delta;
+}
+
+/**
+ * Picks as many values as there are, with replacement.
+ */
+function resample(xs: number[]): number[] {
+    return xs.map(() => xs[Math.min(xs.length - 1, Math.floor(rand() * xs.length))]);
+}
+
+/**
+ * Cliff's delta: how often a value of xs is bigger than one of ys, less how
+ * often it is smaller, over all pairs (-1..1). Each value of xs is placed
+ * among the sorted ys by binary search.
+ */
+function cliffsDelta(xs: number[], ys: number[]): number {
+    var zs: number[] = sorted(ys);
+    var more: number = 0;
+    var less: number = 0;
+    for (var x of xs) {
+        var lo: number = firstAtLeast(zs, x);
+        var hi: number = firstAbove(zs, x);
+        more += lo;
+        less += zs.length - hi;
+    }
+    return (more - less) / (xs.length * zs.length);
+}
+
+/**
+ * The size of an effect, by its Cliff's delta.
+ */
+function effect(delta: number): string {
+    for (var e of EFFECTS)
+        if (Math.abs(delta) < e[0])
+            return e[1];
+    return "large";
+}
+
+/**
+ * True if two samples differ by the bootstrap test (at Lean.sk.conf) and
+ * by more than a negligible Cliff's delta (Lean.stats.cf).
+ */
+function different(xs: number[], ys: number[]): boolean {
+    return Math.abs(cliffsDelta(xs, ys)) >= Lean.stats.cf &&
+        bootstrap(xs, ys, Lean.stats.bootstraps) < 1 - Lean.sk.conf / 100;
+}
+
+/**
+ * Ranks groups of values by a Scott-Knott test (see above).
+ * @param groups the values of each label
+ * @param labels the labels
+ * @returns the rank of each label, lowest median first
+ */
+function scottKnott(groups: number[][], labels: string[]): Rank[] {
+    var ranks: Rank[] = groups.map((xs: number[], i: number) => {
+        var ys: number[] = sorted(xs);
+        return { rank: 0, label: labels[i], n: ys.length, median: median(ys), iqr: iqr(ys) };
+    });
+    var order: number[] = groups.map((xs: number[], i: number) => i);
+    order.sort((i: number, j: number) => ranks[i].median - ranks[j].median || i - j);
+    var parts: number[][] = order.map(i => groups[i]);
+    var small: number = Lean.sk.cohen * summary([].concat.apply([], groups)).sd;
+    var rank: number = 0;
+
+    //splits parts lo..hi where the means of the two sides differ most
+    function split(lo: number, hi: number): void {
+        var all: Num = summary([].concat.apply([], parts.slice(lo, hi + 1)));
+        var best: number = -1;
+        var cut: number = -1;
+        for (var i = lo; i < hi; i++) {
+            var left: Num = summary([].concat.apply([], parts.slice(lo, i + 1)));
+            var right: Num = summary([].concat.apply([], parts.slice(i + 1, hi + 1)));
+            var score: number = (left.count * (left.mean - all.mean) ** 2 +
+                right.count * (right.mean - all.mean) ** 2) / all.count;
+            if (score > best && Math.abs(left.mean - right.mean) > small) {
+                best = score;
+                cut = i;
+            }
+        }
+        if (cut >= 0 && different([].concat.apply([], parts.slice(lo, cut + 1)),
+            [].concat.apply([], parts.slice(cut + 1, hi + 1)))) {
+            split(lo, cut);
+            split(cut + 1, hi);
+            return;
+        }
+        rank++;
+        for (var i = lo; i <= hi; i++)
+            ranks[order[i]].rank = rank;
+    }
+
+    split(0, parts.length - 1);
+    return order.map(i => ranks[i]);
+}
+
+/**
+ * A numeric summary of some values.
+ */
+function summary(xs: number[]): Num {
+    var n: Num = num();
+    for (var x of xs)
+        numInc(n, x);
+    return n;
+}
+
+/**
+ * A sorted copy of some values.
+ */
+function sorted(xs: number[]): number[] {
+    return xs.slice().sort((a: number, b: number) => a - b);
+}
+
+/**
+ * The median of sorted values.
+ */
+function median(xs: number[]): number {
+    var n: number = xs.length;
+    return (xs[Math.floor((n - 1) / 2)] + xs[Math.floor(n / 2)]) / 2;
+}
+
+/**
+ * The interquartile range (75th less 25th percentile) of sorted values.
+ */
+function iqr(xs: number[]): number {
+    var at = (p: number) => xs[Math.min(xs.length - 1, Math.floor(p * xs.length))];
+    return at(0.75) - at(0.25);
+}
+
+/**
+ * The index of the first of the sorted values that is at least x.
+ */
+function firstAtLeast(xs: number[], x: number): number {
+    var lo: number = 0;
+    var hi: number = xs.length;
+    while (lo < hi) {
+        var mid: number = (lo + hi) >> 1;
+        if (xs[mid] < x)
+            lo = mid + 1;
+        else
+            hi = mid;
+    }
+    return lo;
+}
+
+/**
+ * The index of the first of the sorted values that is bigger than x.
+ */
+function firstAbove(xs: number[], x: number): number {
+    var lo: number = 0;
+    var hi: number = xs.length;
+    while (lo < hi) {
+        var mid: number = (lo + hi) >> 1;
+        if (xs[mid] <= x)
+            lo = mid + 1;
+        else
+            hi = mid;
+    }
+    return lo;
+}
+
+/**
+ * Prints the tests, as text (rounded) or JSON, or the best-vs-rest lines
+ * as a table.
+ */
+function report(result: Test[]): void {
+    if (json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+    }
+    if (outFormat) {
+        var out: Writer = new Writer(["column", "best", "rest", "p", "significant", "delta", "effect"], "stats");
+        for (var x of result)
+            out.row([x.column, x.best, x.rest, x.p, x.significant ? "yes" : "no", x.delta, x.effect]);
+        out.end();
+        return;
+    }
+    var r = (x: number) => String(Math.round(x * 1000) / 1000);
+    for (var x of result)
+        console.log([x.column, r(x.best), r(x.rest), r(x.p), x.significant ? "yes" : "no",
+            r(x.delta), x.effect].join("\t"));
+    //the ranks follow, after a blank line, if there are any
+    if (result.length > 0 && result[0].ranks.length > 0)
+        console.log("");
+    for (var x of result)
+        for (var k of x.ranks)
+            console.log([x.column, k.rank, k.label, k.n, r(k.median), r(k.iqr)].join("\t"));
+}
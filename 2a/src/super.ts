@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+
+import { Lean, configure } from "./config";
+import { Writer, useFormats } from "./formats";
+import { useIds } from "./ids";
+import { Num, num, numInc, numDec } from "./num";
+import { Sym, sym, symInc, symDec, symEnt } from "./sym";
+import { Cell, Col, Table, readTable, reportMissing } from "./table";
+import { useValidation } from "./validate";
+
+/**
+ * @file super.ts
+ *
+ * This filter is the TypeScript port of "super.lua", the stage that follows
+ * Pipe3 in the pipe:
+ *
+ *     ... | node argmin.js | node Pipe3.js | node super.js
+ *
+ * It rewrites the contents of the numeric independent ("$") columns as
+ * ranges (e.g. 23..45), using the "!klass" labels written by Pipe3 as the
+ * goal. Each such column is sorted then explored for a cut where the
+ * expected value of the entropy of the goal after cutting is minimized.
+ * A cut is endorsed only if:
+ *
+ *    - The minimization is greater than some trivially small change
+ *      (defaults to 5%, see Lean.super.margin);
+ *    - The number of rows on each side of the cut is at least "enough"
+ *      (defaults to the square root of the number of rows, see
+ *      Lean.super.enough);
+ *    - The range of the column on each side of the cut is more than
+ *      Lean.super.cohen times the standard deviation of the column.
+ *
+ * After finding a cut, both sides of the cut are explored for more cuts.
+ * Rows with an unknown ("?") value sort to the end of the column and are
+ * left as they are. The cuts are written to STDERR, the rewritten table
+ * (with the "$" dropped from the header, since the columns are no longer
+ * numeric) to STDOUT. Input and output formats are chosen with "--in" and
+ * "--out" (see formats.ts).
+ */
+
+// Apply the settings, format, validation and ID flags (see config.ts,
+// formats.ts, validate.ts and ids.ts); super takes no other args.
+var args: string[] = useIds(useValidation(useFormats(configure(process.argv.slice(2)))));
+if (args.length > 0) {
+    process.stderr.write("Invalid command line args: " + args.join(" ") + "\n");
+    process.exit(-1);
+}
+
+readTable(function (t: Table) {
+    reportMissing(t);
+    supervise(t, t.klass || t.cols[t.cols.length - 1]);
+});
+
+/**
+ * Discretizes every numeric independent column of the table, then prints it.
+ * @param t the table read from standard input
+ * @param goal the column whose entropy the cuts minimize
+ */
+function supervise(t: Table, goal: Col): void {
+    var rows: Cell[][] = t.rows;
+    var enough: number = Math.pow(rows.length, Lean.super.enough);
+
+    for (var col of t.indeps) {
+        if (!col.num)
+            continue;
+        var c: number = col.pos;
+        sortOn(rows, c);
+        var most: number = stop(rows, c);
+        process.stderr.write("\n-- " + col.name + " ----------\n");
+        if (most >= 0)
+            cuts(rows, c, goal.pos, 0, most, most, enough, col.num.sd * Lean.super.cohen, "|.. ");
+    }
+
+    var out: Writer = new Writer(t.header.map(x => x.replace(/\$/g, "")), "super");
+    for (var row of rows)
+        out.row(row);
+    out.end();
+}
+
+/**
+ * Sorts rows on column c, with unknown ("?") values last.
+ */
+function sortOn(rows: Cell[][], c: number): void {
+    rows.sort(function (a: Cell[], b: Cell[]): number {
+        if (a[c] === "?")
+            return b[c] === "?" ? 0 : 1;
+        if (b[c] === "?")
+            return -1;
+        return <number>a[c] - <number>b[c];
+    });
+}
+
+/**
+ * Returns the index of the last row whose value in column c is known
+ * (-1 if there is none). Unknowns were sorted to the end.
+ */
+function stop(rows: Cell[][], c: number): number {
+    for (var i = rows.length - 1; i >= 0; i--)
+        if (rows[i][c] !== "?")
+            return i;
+    return -1;
+}
+
+/**
+ * Finds the best cut of rows lo..hi on column c: moves rows one at a time
+ * from a "right" summary to a "left" summary (one pair of summaries for
+ * the column and one for the goal), and keeps the split that most reduces
+ * the expected entropy of the goal.
+ * @returns the index of the last row left of the cut, or -1 for no cut
+ */
+function argmin(rows: Cell[][], c: number, goal: number, lo: number, hi: number,
+    enough: number, cohen: number): number {
+    var nl: Num = num();
+    var nr: Num = num();
+    var sl: Sym = sym();
+    var sr: Sym = sym();
+    var cut: number = -1;
+    for (var i = lo; i <= hi; i++) {
+        numInc(nr, rows[i][c]);
+        symInc(sr, String(rows[i][goal]));
+    }
+    var best: number = symEnt(sr);
+    if (hi - lo > 2 * enough) {
+        for (var i = lo; i <= hi; i++) {
+            var x: Cell = rows[i][c];
+            var y: string = String(rows[i][goal]);
+            numInc(nl, x);
+            numDec(nr, x);
+            symInc(sl, y);
+            symDec(sr, y);
+            if (nl.count >= enough && nr.count >= enough &&
+                nl.max - nl.min > cohen && nr.max - nr.min > cohen) {
+                var tmp: number = symXpect(sl, sr) * Lean.super.margin;
+                if (tmp < best) {
+                    cut = i;
+                    best = tmp;
+                }
+            }
+        }
+    }
+    return cut;
+}
+
+/**
+ * Expected entropy of two groups of symbols, weighted by their sizes.
+ */
+function symXpect(a: Sym, b: Sym): number {
+    var n: number = a.count + b.count + 0.0001;
+    return a.count / n * symEnt(a) + b.count / n * symEnt(b);
+}
+
+/**
+ * If rows lo..hi have a good cut, recurses into both sides of it. Otherwise
+ * rewrites column c of all those rows to the same range.
+ */
+function cuts(rows: Cell[][], c: number, goal: number, lo: number, hi: number,
+    most: number, enough: number, cohen: number, pre: string): void {
+    process.stderr.write(pre + rows[lo][c] + ".." + rows[hi][c] + "\n");
+    var cut: number = argmin(rows, c, goal, lo, hi, enough, cohen);
+    if (cut >= 0) {
+        cuts(rows, c, goal, lo, cut, most, enough, cohen, pre + "|.. ");
+        cuts(rows, c, goal, cut + 1, hi, most, enough, cohen, pre + "|.. ");
+    } else {
+        var s: string = band(rows, c, lo, hi, most);
+        for (var r = lo; r <= hi; r++)
+            rows[r][c] = s;
+    }
+}
+
+/**
+ * The print string for a range that stretches from row lo to row hi;
+ * the first and last ranges are open-ended.
+ */
+function band(rows: Cell[][], c: number, lo: number, hi: number, most: number): string {
+    if (lo == 0)
+        return ".." + rows[hi][c];
+    if (hi == most)
+        return rows[lo][c] + "..";
+    return rows[lo][c] + ".." + rows[hi][c];
+}
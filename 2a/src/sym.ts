@@ -0,0 +1,64 @@
+/**
+ * @file sym.ts
+ *
+ * Incremental summaries of symbolic columns, shared by all the filters.
+ * This is the TypeScript side of "sym.lua": a "Sym" counts how often each
+ * symbol was seen and remembers the most common one (the "mode").
+ *
+ * A "Sym" has structure { count, counts, mode, most }.
+ */
+
+export interface Sym {
+    count: number;
+    counts: { [symbol: string]: number };
+    mode: string;
+    most: number;
+}
+
+/**
+ * Returns an empty symbolic summary.
+ */
+export function sym(): Sym {
+    return { count: 0, counts: {}, mode: undefined, most: 0 };
+}
+
+/**
+ * Adds one symbol to the summary.
+ *
+ * @param aggr:  The counts seen so far.
+ * @param value: A new symbol added to the set.
+ */
+export function symInc( aggr: Sym, value: string ) {
+    aggr.count++;
+    var seen = ( aggr.counts[ value ] || 0 ) + 1;
+    aggr.counts[ value ] = seen;
+    if ( seen > aggr.most ) {
+        aggr.most = seen;
+        aggr.mode = value;
+    }
+}
+
+/**
+ * Removes one symbol, previously added with symInc(), from the summary.
+ *
+ * @param aggr:  The counts seen so far.
+ * @param value: A symbol previously added to the set.
+ */
+export function symDec( aggr: Sym, value: string ) {
+    if ( aggr.count > 0 && aggr.counts[ value ] ) {
+        aggr.count--;
+        aggr.counts[ value ]--;
+    }
+}
+
+/**
+ * Returns the entropy (in bits) of the symbols in the summary.
+ */
+export function symEnt( aggr: Sym ): number {
+    var ent = 0;
+    for ( var x in aggr.counts ) {
+        var p = aggr.counts[ x ] / aggr.count;
+        if ( p > 0 ) ent -= p * Math.log( p ) / Math.log( 2 );
+    }
+    return ent;
+}
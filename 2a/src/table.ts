@@ -0,0 +1,373 @@
+import { Parser } from "./formats";
+import { Ids, idFrom } from "./ids";
+import { Num, num, numInc } from "./num";
+import { Sym, sym, symInc } from "./sym";
+import { Validator } from "./validate";
+
+/**
+ * @file table.ts
+ *
+ * The table of data shared by all the filters in the pipe. This follows the
+ * header conventions of "rows.lua", where special symbols in each column name
+ * say what that column holds:
+ *
+ *    $  an independent numeric column
+ *    <  a numeric goal to be minimized
+ *    >  a numeric goal to be maximized
+ *    !  the class column (symbolic)
+ *    ?  a column to skip (no summary is kept)
+ *
+ * Every other column is symbolic. For example:
+ *
+ *     outlook, $temp, ?$humid, wind, !play
+ *
+ * Each used column gets a "Col" holding a Num or Sym summary (see num.ts and
+ * sym.ts) that is updated as rows are added. Rows keep every cell in its
+ * original position, so a filter can print a row back out unchanged.
+ *
+ * A cell holding "?" is unknown: it stays "?" in the row, is left out of the
+ * column's summary, and is counted in the column's "missing" total.
+ */
+
+// One cell of a row: numeric columns hold numbers, the rest hold strings.
+export type Cell = number | string;
+
+export interface Col {
+    // Position of this column's cell in each row.
+    pos: number;
+    // The column name, without surrounding whitespace.
+    name: string;
+    // -1 for a goal to minimize, 1 for a goal to maximize, 0 otherwise.
+    w: number;
+    // True for the class column.
+    klass: boolean;
+    // Summary of a numeric column (undefined for symbolic columns).
+    num: Num;
+    // Summary of a symbolic column (undefined for numeric columns).
+    sym: Sym;
+    // Number of unknown ("?") cells seen in this column.
+    missing: number;
+}
+
+// A header and its rows: a Table, or what a stage of the pipe returns (see
+// pipeline.ts).
+export interface Rows {
+    header: string[];
+    rows: Cell[][];
+}
+
+export class Table {
+    // The header cells, exactly as read.
+    header: string[];
+    // All used (non-"?") columns, in header order.
+    cols: Col[];
+    // The numeric columns.
+    nums: Col[];
+    // The symbolic columns.
+    syms: Col[];
+    // The "<" and ">" columns.
+    goals: Col[];
+    // Columns that are neither goals nor the class.
+    indeps: Col[];
+    // The "!" column, if any.
+    klass: Col;
+    // The data rows.
+    rows: Cell[][];
+
+    /**
+     * Builds the columns described by the header.
+     * @param header the cells of the first line of the input
+     */
+    constructor(header: string[]) {
+        this.header = header;
+        this.cols = [];
+        this.nums = [];
+        this.syms = [];
+        this.goals = [];
+        this.indeps = [];
+        this.rows = [];
+        for (var pos = 0; pos < header.length; pos++) {
+            var name: string = header[pos].trim();
+            if (name.indexOf("?") >= 0)
+                continue;
+            var col: Col = {
+                pos: pos,
+                name: name,
+                w: name.indexOf("<") >= 0 ? -1 : name.indexOf(">") >= 0 ? 1 : 0,
+                klass: false,
+                num: undefined,
+                sym: undefined,
+                missing: 0
+            };
+            if (/[<>$]/.test(name)) {
+                col.num = num();
+                this.nums.push(col);
+            } else {
+                col.sym = sym();
+                this.syms.push(col);
+            }
+            if (col.w != 0)
+                this.goals.push(col);
+            else if (name.indexOf("!") >= 0)
+                this.klass = col;
+            else
+                this.indeps.push(col);
+            col.klass = col === this.klass;
+            this.cols.push(col);
+        }
+    }
+
+    /**
+     * Converts the cells of one line to a row and adds its values to the
+     * column summaries. The row is not stored (see add()).
+     * @param cells the cells of one line of the input
+     * @returns the row
+     */
+    parse(cells: Cell[]): Cell[] {
+        var row: Cell[] = cells.slice();
+        for (var col of this.cols) {
+            if (cells[col.pos] === "?") {
+                col.missing++;
+            } else if (col.num) {
+                var x: number = Number(cells[col.pos]);
+                row[col.pos] = x;
+                numInc(col.num, x);
+            } else {
+                symInc(col.sym, String(cells[col.pos]));
+            }
+        }
+        return row;
+    }
+
+    /**
+     * Parses one line of cells and stores it as a row of the table.
+     * @param cells the cells of one line of the input
+     * @returns the row
+     */
+    add(cells: Cell[]): Cell[] {
+        var row = this.parse(cells);
+        this.rows.push(row);
+        return row;
+    }
+
+    /**
+     * Finds a column by its name (ignoring surrounding whitespace).
+     * @returns the column, or undefined if there is none
+     */
+    col(name: string): Col {
+        name = name.trim();
+        for (var col of this.cols)
+            if (col.name === name)
+                return col;
+        return undefined;
+    }
+
+    /**
+     * The column the pipe sorts, cuts and labels on: the ">dom" score if the
+     * data has one, otherwise the last goal column, otherwise the last column.
+     */
+    goal(): Col {
+        var dom = this.col(">dom");
+        if (dom)
+            return dom;
+        if (this.goals.length > 0)
+            return this.goals[this.goals.length - 1];
+        return this.cols[this.cols.length - 1];
+    }
+}
+
+/**
+ * Returns the rows as a Table: the same table if they are one already,
+ * else a new one that the rows are parsed into (so numeric cells given as
+ * text become numbers).
+ */
+export function tableOf(data: Rows): Table {
+    if (data instanceof Table)
+        return data;
+    var t: Table = new Table(data.header);
+    for (var row of data.rows)
+        t.add(row);
+    return t;
+}
+
+/**
+ * Finds a goal ("<" or ">" column, or the "!" class column) by its name,
+ * with or without its "<", ">" or "!" (so "<ep" and "ep" are the same goal).
+ * Without a name, this is the goal the pipe works on by default (see
+ * Table.goal()). Throws an Error if there is no such goal.
+ * @param t the table
+ * @param name the name of the goal, if any
+ */
+export function goalOf(t: Table, name?: string): Col {
+    if (name === undefined)
+        return t.goal();
+    for (var col of t.klass ? t.goals.concat(t.klass) : t.goals)
+        if (col.name === name.trim() || bareName(col) === name.trim())
+            return col;
+    throw new Error("No such goal: " + name + " (use a <, > or ! column)");
+}
+
+/**
+ * The name of a column without its "<", ">" or "!", as in "!klass_ep".
+ */
+export function bareName(col: Col): string {
+    return col.name.replace(/[<>!]/g, "");
+}
+
+/**
+ * Returns the label of the best group: the one with the highest mean
+ * score in the ">dom" column (as bestRest in rank.lua).
+ * @param t the table
+ * @param klass the "!klass" column
+ */
+export function bestKlass(t: Table, klass: Col): string {
+    var dom: Col = t.col(">dom") || t.goal();
+    var groups: { [label: string]: Num } = {};
+    for (var row of t.rows) {
+        var k: string = String(row[klass.pos]);
+        if (k === "?")
+            continue;
+        groups[k] = groups[k] || num();
+        numInc(groups[k], row[dom.pos]);
+    }
+    var best: string;
+    for (var k in groups)
+        if (best === undefined || groups[k].mean > groups[best].mean)
+            best = k;
+    return best;
+}
+
+/**
+ * Writes a one-line summary of how many cells were unknown ("?") in each
+ * column to STDERR. Nothing is written if no cell was unknown.
+ */
+export function reportMissing(t: Table) {
+    var counts: string[] = [];
+    for (var col of t.cols)
+        if (col.missing > 0)
+            counts.push(col.name + "=" + col.missing);
+    if (counts.length > 0)
+        process.stderr.write("-- missing: " + counts.join(", ") + "\n");
+}
+
+/**
+ * Streams text from "input" (STDIN by default) one line at a time. Chunks
+ * are split on newlines as they arrive, and a line broken across two chunks
+ * is carried over until its end is seen, so memory use depends on the
+ * length of a line rather than the size of the input.
+ *
+ * @param onLine called with each line (without its newline)
+ * @param onEnd  called once, after the last line
+ * @param input  the stream to read
+ */
+export function readLines(onLine: (line: string) => void, onEnd: () => void,
+    input: NodeJS.ReadableStream = process.stdin) {
+    var rest: string = "";
+    input.setEncoding('utf8');
+    input.on('data', function (chunk: string) {
+        var lines: string[] = (rest + chunk).split("\n");
+        rest = lines.pop();
+        for (var line of lines)
+            onLine(line);
+    });
+    input.on('end', function () {
+        if (rest.length > 0)
+            onLine(rest);
+        onEnd();
+    });
+}
+
+/**
+ * Streams the records of the input (see formats.ts): the header first, then
+ * one record per row. Each record is checked as it is read, and bad ones
+ * are repaired or skipped, or stop the filter, by the "--on-error" policy
+ * (see validate.ts). Row IDs are added if "--id" was given (see ids.ts).
+ *
+ * @param onRecord called with the values of each record
+ * @param onEnd    called once, after the last record
+ * @param input    the stream to read
+ */
+export function readRecords(onRecord: (cells: string[]) => void, onEnd: () => void,
+    input: NodeJS.ReadableStream = process.stdin) {
+    var parser: Parser = new Parser();
+    var validator: Validator = new Validator();
+    // the number of the line being read, and of the line its record started on
+    var n: number = 0;
+    var start: number;
+    // the row IDs to add, if any (see ids.ts)
+    var ids: Ids = idFrom === undefined ? undefined : new Ids(idFrom);
+    function record(cells: string[]) {
+        if (validator.header === undefined) {
+            validator.start(cells, new Table(cells).nums.map(col => col.pos));
+            onRecord(ids ? idHeader(ids, cells) : cells);
+        } else {
+            cells = validator.row(cells, start);
+            if (ids)
+                cells = <string[]>ids.row(cells);
+            if (cells)
+                onRecord(cells);
+        }
+    }
+    readLines(function (line: string) {
+        n++;
+        line = validator.line(line, n);
+        if (parser.pending === undefined) {
+            start = n;
+            if (line.length == 0) {
+                validator.blank(n);
+                return;
+            }
+        }
+        var records: string[][];
+        try {
+            records = parser.push(line);
+        } catch (e) {
+            //a line that is not JSON cannot be repaired, only dropped
+            if (!validator.problem("format", n, 1, e.message))
+                validator.skip();
+            return;
+        }
+        for (var cells of records)
+            record(cells);
+    }, function () {
+        if (parser.pending !== undefined &&
+            !validator.problem("format", start, 1, "a quoted value is never closed")) {
+            validator.skip();
+            parser.pending = undefined;
+        }
+        for (var cells of parser.end())
+            record(cells);
+        validator.end();
+        onEnd();
+    }, input);
+}
+
+/**
+ * Adds the ID column to a header, or exits with an error if it cannot.
+ */
+function idHeader(ids: Ids, cells: string[]): string[] {
+    try {
+        return ids.header(cells);
+    } catch (e) {
+        process.stderr.write(e.message + "\n");
+        process.exit(-1);
+    }
+}
+
+/**
+ * Reads a table from STDIN, in any of the input formats of formats.ts.
+ * The first record is the header, every other record is a row.
+ *
+ * @param done called with the table once all of the input has been read
+ */
+export function readTable(done: (t: Table) => void) {
+    var t: Table;
+    readRecords(function (cells: string[]) {
+        if (t)
+            t.add(cells);
+        else
+            t = new Table(cells);
+    }, function () {
+        done(t);
+    });
+}
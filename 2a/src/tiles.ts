@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+
+import * as fs from "fs";
+import { Lean, Tiles, configure } from "./config";
+import { useFormats } from "./formats";
+import { Col, Table, bestKlass, readTable, reportMissing } from "./table";
+import { useValidation } from "./validate";
+
+/**
+ * @file tiles.ts
+ *
+ * This filter draws the distributions of the best and rest rows of Pipe3's
+ * output, column by column, as tile plots:
+ *
+ *     ... | node Pipe3.js | node tiles.js
+ *
+ * The best rows are those of the "!klass" label with the highest mean
+ * ">dom" score (as in rank.ts); all other labelled rows are the rest. For
+ * every numeric column, each group gets one line "width" characters wide,
+ * spanning the smallest to the largest value of the column (in either
+ * group, so the two lines can be compared). Following the "tiles" settings
+ * of config.lua, each of the "chops" fills the line from its percentile up
+ * to the next one's with its character ("-" from the 5th to the 25th and
+ * from the 75th to the 95th), the "bar" marks the middle of the line, and
+ * the "star" marks the median. The values at the chops follow, formatted
+ * by "num", and the column name is formatted by "sym":
+ *
+ *              $nprod best                 ---------|--        *       ----- , 3.310, ...
+ *                     rest   ---------            * |          ------------  , 0.510, ...
+ *
+ * Symbolic columns have no tiles. Command line args:
+ * --svg=file = also write the plots to a standalone SVG file
+ * --in       = the input format (see formats.ts)
+ * and the "tiles" settings can be changed as usual (e.g. "--tiles.width=30";
+ * see config.ts).
+ */
+
+// The plots of one column.
+interface Plot {
+    name: string;
+    lo: number;
+    hi: number;
+    // the values of each group, sorted
+    best: number[];
+    rest: number[];
+}
+
+// the SVG file to write, if any
+var svg: string;
+
+//"--out" and "--id" are not taken, as the plots are not a table
+for (var arg of useValidation(useFormats(configure(process.argv.slice(2)), false))) {
+    var m = /^--svg=(.+)$/.exec(arg);
+    if (m)
+        svg = m[1];
+    else
+        argsErr();
+}
+
+readTable(function (t: Table) {
+    reportMissing(t);
+    var all: Plot[] = plots(t);
+    for (var p of all) {
+        console.log(format(Lean.tiles.sym, p.name) + " best " + tile(p.best, p.lo, p.hi, Lean.tiles));
+        console.log(format(Lean.tiles.sym, "") + " rest " + tile(p.rest, p.lo, p.hi, Lean.tiles));
+    }
+    if (svg)
+        fs.writeFileSync(svg, drawing(all, Lean.tiles));
+});
+
+/**
+ * Prints an error message and halts execution of the program
+ */
+function argsErr(): void {
+    process.stderr.write("Invalid command line args\n");
+    process.stderr.write("--svg=file: also write the plots as SVG\n");
+    process.stderr.write("--in csv|tsv|jsonl: input format\n");
+    process.stderr.write("--on-error=fail|skip|warn: what to do with bad input (see validate.ts)\n");
+    process.stderr.write("--show-config: print the settings (see config.ts)\n");
+    process.exit(-1);
+}
+
+/**
+ * Splits the known values of every numeric column into best and rest.
+ * Columns where either group has no values are left out.
+ * @param t the table, labelled by Pipe3
+ */
+function plots(t: Table): Plot[] {
+    var klass: Col = t.klass || t.cols[t.cols.length - 1];
+    var best: string = bestKlass(t, klass);
+    var result: Plot[] = [];
+    for (var col of t.nums) {
+        if (col === klass)
+            continue;
+        var p: Plot = { name: col.name, lo: col.num.min, hi: col.num.max, best: [], rest: [] };
+        for (var row of t.rows) {
+            var k: string = String(row[klass.pos]);
+            if (k === "?" || row[col.pos] === "?")
+                continue;
+            (k === best ? p.best : p.rest).push(<number>row[col.pos]);
+        }
+        p.best.sort((a: number, b: number) => a - b);
+        p.rest.sort((a: number, b: number) => a - b);
+        if (p.best.length > 0 && p.rest.length > 0)
+            result.push(p);
+    }
+    return result;
+}
+
+/**
+ * The value at percentile p of some sorted values.
+ */
+function percentile(xs: number[], p: number): number {
+    return xs[Math.max(0, Math.min(xs.length - 1, Math.floor(p * xs.length)))];
+}
+
+/**
+ * Where a value goes on a line of "width" characters spanning lo..hi.
+ */
+function place(x: number, lo: number, hi: number, width: number): number {
+    return Math.max(0, Math.min(width - 1, Math.floor(width * (x - lo) / (hi - lo + 10**-32))));
+}
+
+/**
+ * One tile plot: the line, then the values at the chops.
+ * @param xs the sorted values
+ * @param lo the smallest value of the line
+ * @param hi the largest
+ * @param spec the "tiles" settings
+ */
+function tile(xs: number[], lo: number, hi: number, spec: Tiles): string {
+    var line: string[] = [];
+    for (var i = 0; i < spec.width; i++)
+        line.push(" ");
+    for (var k = 0; k + 1 < spec.chops.length; k++) {
+        var from: number = place(percentile(xs, spec.chops[k][0]), lo, hi, spec.width);
+        var to: number = place(percentile(xs, spec.chops[k + 1][0]), lo, hi, spec.width);
+        for (var i = from; i <= to; i++)
+            line[i] = spec.chops[k][1];
+    }
+    line[Math.floor(spec.width / 2)] = spec.bar;
+    line[place(percentile(xs, 0.5), lo, hi, spec.width)] = spec.star;
+    var values: string[] = spec.chops.map(chop => format(spec.num, percentile(xs, chop[0])));
+    return line.join("") + ", " + values.join(", ");
+}
+
+/**
+ * Formats a value by a printf-style spec ("%5.3f", "%-20s", "%d"), as
+ * string.format does in Lua.
+ */
+function format(spec: string, x: number | string): string {
+    var m = /^%(-?)(\d*)(\.(\d+))?([dfs])$/.exec(spec);
+    if (!m)
+        return String(x);
+    var s: string = m[5] === "s" ? String(x)
+        : m[5] === "d" ? String(Math.round(<number>x))
+        : (<number>x).toFixed(m[4] === undefined ? 6 : Number(m[4]));
+    while (s.length < Number(m[2] || 0))
+        s = m[1] ? s + " " : " " + s;
+    return s;
+}
+
+/**
+ * The plots as a standalone SVG document: each group's line is drawn with
+ * a stroke for every chop drawn with a character other than a space, a
+ * tick for the bar and a dot for the median, and labelled as in the text.
+ * @param all the plots
+ * @param spec the "tiles" settings
+ */
+function drawing(all: Plot[], spec: Tiles): string {
+    var CHAR: number = 8;
+    var ROW: number = 18;
+    var left: number = 200;
+    var width: number = spec.width * CHAR;
+    var esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    var lines: string[] = [];
+    var y: number = ROW;
+    for (var p of all) {
+        lines.push("<text x=\"0\" y=\"" + y + "\" font-weight=\"bold\">" + esc(p.name) + "</text>");
+        for (var group of [["best", p.best], ["rest", p.rest]]) {
+            var xs: number[] = <number[]>group[1];
+            var at = (v: number) => left + place(v, p.lo, p.hi, spec.width) * CHAR + CHAR / 2;
+            var mid: number = y - 4;
+            lines.push("<text x=\"" + (left - 40) + "\" y=\"" + y + "\">" + group[0] + "</text>");
+            for (var k = 0; k + 1 < spec.chops.length; k++)
+                if (spec.chops[k][1].trim() !== "")
+                    lines.push("<line x1=\"" + at(percentile(xs, spec.chops[k][0])) + "\" y1=\"" + mid +
+                        "\" x2=\"" + at(percentile(xs, spec.chops[k + 1][0])) + "\" y2=\"" + mid +
+                        "\" stroke=\"black\" stroke-width=\"2\"/>");
+            var bar: number = left + Math.floor(spec.width / 2) * CHAR + CHAR / 2;
+            lines.push("<line x1=\"" + bar + "\" y1=\"" + (mid - 6) + "\" x2=\"" + bar + "\" y2=\"" + (mid + 6) +
+                "\" stroke=\"gray\"/>");
+            lines.push("<circle cx=\"" + at(percentile(xs, 0.5)) + "\" cy=\"" + mid + "\" r=\"4\" fill=\"red\"/>");
+            lines.push("<text x=\"" + (left + width + 10) + "\" y=\"" + y + "\">" +
+                esc(spec.chops.map(chop => format(spec.num, percentile(xs, chop[0]))).join(", ")) + "</text>");
+            y += ROW;
+        }
+        y += ROW / 2;
+    }
+    return "<svg xmlns=\"http://www.w3.org/2000/svg\" width=\"" + (left + width + 400) +
+        "\" height=\"" + y + "\" font-family=\"monospace\" font-size=\"12\">\n" +
+        lines.map(line => "  " + line).join("\n") + "\n</svg>\n";
+}
@@ -0,0 +1,202 @@
+/**
+ * @file validate.ts
+ *
+ * Checks each record of the input before a filter uses it, so that a broken
+ * generator run stops the pipe instead of turning into NaNs further down.
+ * What happens to a bad record is the policy chosen with "--on-error":
+ *
+ *    fail  report the first problem and exit with its code (below)
+ *    skip  drop the record, and report how many were dropped at the end
+ *    warn  report the problem and repair the record (the default)
+ *
+ * The problems, and the exit codes they fail with:
+ *
+ *    empty     2  no header: the input is empty (this always fails)
+ *    format    3  a line of JSON Lines that is not JSON, or a csv quote that
+ *                 is never closed
+ *    mismatch  4  the rows do not have as many cells as the header
+ *    ragged    5  one row has a different number of cells to the rest
+ *    numeric   6  a cell of a numeric column ("$", "<", ">") that is neither
+ *                 a number nor "?"
+ *    crlf      7  a line ending in CR LF
+ *    blank     8  an empty line (such as one left at the end of the input)
+ *
+ * Short rows are repaired by padding them with "?", long ones by dropping
+ * the extra cells, and bad numbers by making them "?". A CR is always
+ * repaired by dropping it and a blank line by skipping it, whatever the
+ * policy (except "fail"); only the first CR LF is warned about.
+ *
+ * Problems are reported on STDERR with the line and column (counted from 1)
+ * where they were found, as in
+ *
+ *     stdin:12:3: warning: "n/a" is not a number ($temp)
+ */
+
+export var POLICIES: string[] = ["fail", "skip", "warn"];
+
+// The policy given with "--on-error".
+export var policy: string = "warn";
+
+// The exit code of each problem, under the "fail" policy.
+export var EXIT: { [problem: string]: number } = {
+    empty: 2, format: 3, mismatch: 4, ragged: 5, numeric: 6, crlf: 7, blank: 8
+};
+
+/**
+ * Takes "--on-error=policy" (or "--on-error policy") out of the command
+ * line args. Exits with an error for an unknown policy.
+ *
+ * @param args the command line args
+ * @returns the args that are not about validation, for the filter to handle
+ */
+export function useValidation(args: string[]): string[] {
+    var rest: string[] = [];
+    for (var i = 0; i < args.length; i++) {
+        var m = /^--on-error(=(.*))?$/.exec(args[i]);
+        if (!m || (m[1] === undefined && i + 1 >= args.length)) {
+            rest.push(args[i]);
+            continue;
+        }
+        var p: string = m[1] === undefined ? args[++i] : m[2];
+        if (POLICIES.indexOf(p) < 0) {
+            process.stderr.write("Invalid --on-error: " + p + " (use " + POLICIES.join("|") + ")\n");
+            process.exit(-1);
+        }
+        policy = p;
+    }
+    return rest;
+}
+
+/**
+ * Checks the lines and records of one input, in order.
+ */
+export class Validator {
+    // what the input is called in reports
+    source: string;
+    // the header, and the positions of its numeric columns
+    header: string[];
+    numeric: number[];
+    // how many cells the first row had
+    width: number;
+    // how many records were dropped
+    skipped: number;
+    // true once a CR LF has been reported
+    crlf: boolean;
+
+    constructor(source: string = "stdin") {
+        this.source = source;
+        this.skipped = 0;
+        this.crlf = false;
+    }
+
+    /**
+     * Checks one line of text, before it is parsed.
+     * @param text the line (without its LF)
+     * @param n its line number
+     * @returns the line without its CR, if it had one
+     */
+    line(text: string, n: number): string {
+        if (text.charAt(text.length - 1) !== "\r")
+            return text;
+        if (!this.crlf)
+            this.problem("crlf", n, text.length, "line ends in CR LF");
+        this.crlf = true;
+        return text.slice(0, -1);
+    }
+
+    /**
+     * Reports an empty line (which is skipped).
+     * @param n its line number
+     */
+    blank(n: number): void {
+        this.problem("blank", n, 1, "empty line");
+    }
+
+    /**
+     * Starts checking the rows against a header.
+     * @param cells the header
+     * @param numeric the positions of its numeric columns
+     */
+    start(cells: string[], numeric: number[]): void {
+        this.header = cells;
+        this.numeric = numeric;
+    }
+
+    /**
+     * Checks one row. It is "ragged" if it has a different number of cells
+     * to the header and the first row, and a "mismatch" if it has as many
+     * as the first row, but not as the header.
+     * @param cells its cells
+     * @param n the line number it started on
+     * @returns the row (repaired if need be), or undefined to skip it
+     */
+    row(cells: string[], n: number): string[] {
+        var want: number = this.header.length;
+        if (this.width === undefined)
+            this.width = cells.length;
+        if (cells.length != want) {
+            var mismatch: boolean = cells.length == this.width;
+            if (!this.problem(mismatch ? "mismatch" : "ragged", n, Math.min(cells.length, want) + 1,
+                (mismatch ? "the rows have " : "the row has ") + cells.length +
+                " cells, but the header has " + want))
+                return this.skip();
+            cells = cells.slice(0, want);
+            while (cells.length < want)
+                cells.push("?");
+        }
+        for (var pos of this.numeric) {
+            var cell: string = cells[pos];
+            if (cell === "?" || (cell.trim() !== "" && !isNaN(Number(cell))))
+                continue;
+            if (!this.problem("numeric", n, pos + 1,
+                JSON.stringify(cell) + " is not a number (" + this.header[pos].trim() + ")"))
+                return this.skip();
+            cells = cells.slice();
+            cells[pos] = "?";
+        }
+        return cells;
+    }
+
+    /**
+     * Called after the last record: fails if there was no header, and
+     * reports how many records were skipped.
+     */
+    end(): void {
+        if (!this.header) {
+            this.report("error", 1, 1, "no header (the input is empty)");
+            process.exit(EXIT["empty"]);
+        }
+        if (this.skipped > 0)
+            process.stderr.write("-- skipped: " + this.skipped + " bad row(s)\n");
+    }
+
+    /**
+     * Deals with a problem by the policy: exits for "fail", and reports it
+     * for "warn".
+     * @returns true if the record should be repaired, false if skipped
+     */
+    problem(kind: string, n: number, column: number, message: string): boolean {
+        if (policy === "fail") {
+            this.report("error", n, column, message);
+            process.exit(EXIT[kind]);
+        }
+        if (policy === "warn")
+            this.report("warning", n, column, message);
+        return policy === "warn" || kind === "crlf" || kind === "blank";
+    }
+
+    /**
+     * Counts a skipped record.
+     */
+    skip(): string[] {
+        this.skipped++;
+        return undefined;
+    }
+
+    /**
+     * Writes one report to STDERR.
+     */
+    report(level: string, n: number, column: number, message: string): void {
+        process.stderr.write(this.source + ":" + n + ":" + column + ": " + level + ": " + message + "\n");
+    }
+}